@@ -6,7 +6,13 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { Client, JobError, AuthenticationError } from "@keboola/query-service";
+import {
+  Client,
+  JobError,
+  AuthenticationError,
+  AbortError,
+  sql,
+} from "@keboola/query-service";
 
 // Initialize client (consider using environment variables)
 const client = new Client({
@@ -20,20 +26,27 @@ const WORKSPACE_ID = process.env.KEBOOLA_WORKSPACE_ID!;
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sql } = body as { sql: string };
+    const { customerId, limit } = body as { customerId: string; limit?: number };
 
-    if (!sql) {
+    if (!customerId) {
       return NextResponse.json(
-        { error: "SQL query is required" },
+        { error: "customerId is required" },
         { status: 400 }
       );
     }
 
+    // Never concatenate user input into SQL - values in the `sql` template
+    // are escaped for the workspace dialect
     const results = await client.executeQuery({
       branchId: BRANCH_ID,
       workspaceId: WORKSPACE_ID,
-      statements: [sql],
+      statements: [
+        sql`SELECT * FROM orders WHERE customer_id = ${customerId} LIMIT ${Number(limit ?? 10)}`,
+      ],
       maxWaitTime: 60000, // 1 minute timeout
+      // Stop and cancel the job when the client disconnects
+      signal: request.signal,
+      cancelOnAbort: true,
     });
 
     const result = results[0];
@@ -44,6 +57,11 @@ export async function POST(request: NextRequest) {
       rowCount: result.data.length,
     });
   } catch (error) {
+    if (error instanceof AbortError) {
+      // Client disconnected, nobody reads the response
+      return new NextResponse(null, { status: 499 });
+    }
+
     if (error instanceof AuthenticationError) {
       return NextResponse.json(
         { error: "Authentication failed" },
@@ -77,7 +95,7 @@ export async function POST(request: NextRequest) {
  * const response = await fetch('/api/query', {
  *   method: 'POST',
  *   headers: { 'Content-Type': 'application/json' },
- *   body: JSON.stringify({ sql: 'SELECT * FROM users LIMIT 10' }),
+ *   body: JSON.stringify({ customerId: '42', limit: 10 }),
  * });
  *
  * const data = await response.json();
@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the `kbc-query` command.
+ */
+
+import { runCli } from "./cli";
+
+const controller = new AbortController();
+process.once("SIGINT", () => {
+  // The first Ctrl-C cancels the running job, the second one exits
+  process.stderr.write("Canceling...\n");
+  controller.abort();
+  process.once("SIGINT", () => process.exit(130));
+});
+
+runCli(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  env: process.env,
+  signal: controller.signal,
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,413 @@
+/**
+ * `kbc-query` command-line tool.
+ *
+ * Runs SQL statements in a workspace and prints the result of the last
+ * statement as an aligned table, CSV, JSON or NDJSON.
+ *
+ * @example
+ * ```sh
+ * export KEBOOLA_TOKEN=... KEBOOLA_BRANCH_ID=1261313
+ * export KEBOOLA_WORKSPACE_ID=2950146661
+ * kbc-query "SELECT * FROM orders LIMIT 10"
+ * kbc-query --format csv --stream -f export.sql > orders.csv
+ * kbc-query   # interactive shell
+ * ```
+ */
+
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { Client, VERSION } from "./client";
+import {
+  AbortError,
+  AuthenticationError,
+  JobError,
+  JobTimeoutError,
+  ScriptSyntaxError,
+  ValidationError,
+} from "./errors";
+import { exportRecords, exportResults } from "./export";
+import { runRepl } from "./repl";
+import { splitStatements } from "./script";
+import { formatTable } from "./table";
+import type {
+  FetchFunction,
+  NodeWritableLike,
+  QueryResult,
+  SqlDialect,
+} from "./types";
+
+/** Exit codes of `kbc-query` */
+export const ExitCode = {
+  OK: 0,
+  ERROR: 1,
+  USAGE: 2,
+  AUTHENTICATION: 3,
+  VALIDATION: 4,
+  JOB_FAILED: 5,
+  JOB_TIMEOUT: 6,
+  CANCELED: 130,
+} as const;
+
+const FORMATS = ["table", "csv", "json", "ndjson"] as const;
+type OutputFormat = (typeof FORMATS)[number];
+const DIALECTS: SqlDialect[] = ["snowflake", "bigquery"];
+
+const DEFAULT_URL = "https://query.keboola.com";
+
+const USAGE = `Usage: kbc-query [options] [SQL...]
+
+Run SQL statements in a Keboola workspace and print the result of the last
+statement. Each SQL argument is one statement. Without arguments, a script
+with statements separated by ";" is read from --file or from stdin, or an
+interactive shell starts when stdin is a terminal.
+
+Options:
+  -f, --file <path>      Read SQL from a file ("-" for stdin)
+  -b, --branch <id>      Branch ID (env: KEBOOLA_BRANCH_ID)
+  -w, --workspace <id>   Workspace ID (env: KEBOOLA_WORKSPACE_ID)
+  -u, --url <url>        Query Service URL (env: KEBOOLA_QUERY_URL,
+                         default: ${DEFAULT_URL})
+  -t, --token <token>    Storage API token (env: KEBOOLA_TOKEN)
+  -o, --format <format>  table, csv, json or ndjson
+                         (default: table, ndjson with --stream)
+  -d, --dialect <name>   SQL dialect splitting scripts into statements,
+                         snowflake or bigquery (default: snowflake)
+  -s, --stream           Stream the result instead of paging through it
+  -i, --interactive      Start the interactive shell, see \\help in it
+                         (history: KEBOOLA_QUERY_HISTORY,
+                         default: ~/.kbc_query_history)
+      --max-wait <ms>    Maximum time to wait for the job (default: 300000)
+  -h, --help             Show this help
+  -v, --version          Show the version
+
+Exit codes: 0 success, 1 error, 2 invalid usage, 3 authentication failed,
+4 invalid request, 5 job failed, 6 job timed out, 130 canceled
+`;
+
+/** Streams and environment of a `kbc-query` run */
+export interface CliIO {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: NodeJS.WritableStream;
+  stderr: { write(text: string): unknown };
+  env: Record<string, string | undefined>;
+  /** Aborted on Ctrl-C, cancels the running job */
+  signal?: AbortSignal;
+  /** Fetch implementation of the client */
+  fetch?: FetchFunction;
+}
+
+/** Invalid command-line usage */
+class UsageError extends Error {}
+
+interface CliOptions {
+  statements: string[];
+  branchId: string;
+  workspaceId: string;
+  url: string;
+  token: string;
+  format: OutputFormat;
+  dialect: SqlDialect;
+  stream: boolean;
+  maxWaitTime?: number;
+  interactive: boolean;
+}
+
+async function readStdin(stdin: CliIO["stdin"]): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of stdin) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+async function parseOptions(argv: string[], io: CliIO): Promise<CliOptions> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      file: { type: "string", short: "f" },
+      branch: { type: "string", short: "b" },
+      workspace: { type: "string", short: "w" },
+      url: { type: "string", short: "u" },
+      token: { type: "string", short: "t" },
+      format: { type: "string", short: "o" },
+      dialect: { type: "string", short: "d" },
+      stream: { type: "boolean", short: "s" },
+      interactive: { type: "boolean", short: "i" },
+      "max-wait": { type: "string" },
+    },
+  });
+
+  const dialect = (values.dialect ?? "snowflake") as SqlDialect;
+  if (!DIALECTS.includes(dialect)) {
+    throw new UsageError(`Unknown dialect "${values.dialect}"`);
+  }
+
+  let statements = positionals;
+  const interactive =
+    values.interactive ??
+    (positionals.length === 0 && values.file === undefined && !!io.stdin.isTTY);
+  if (interactive) {
+    if (positionals.length > 0 || values.file !== undefined) {
+      throw new UsageError(
+        "Pass SQL either as arguments or with --interactive"
+      );
+    }
+  } else if (values.file !== undefined || positionals.length === 0) {
+    if (positionals.length > 0) {
+      throw new UsageError("Pass SQL either as arguments or with --file");
+    }
+    const script =
+      values.file === undefined || values.file === "-"
+        ? await readStdin(io.stdin)
+        : await readFile(values.file, "utf8");
+    statements = splitStatements(script, { dialect }).map(
+      (statement) => statement.sql
+    );
+  }
+  statements = statements.map((sql) => sql.trim()).filter(Boolean);
+  if (statements.length === 0 && !interactive) {
+    throw new UsageError("No SQL given");
+  }
+
+  const required = (value: string | undefined, name: string, env: string) => {
+    const resolved = value ?? io.env[env];
+    if (!resolved) {
+      throw new UsageError(`Missing ${name}, pass it with --${name} or ${env}`);
+    }
+    return resolved;
+  };
+
+  const stream = values.stream ?? false;
+  const format = values.format ?? (stream ? "ndjson" : "table");
+  if (!FORMATS.includes(format as OutputFormat)) {
+    throw new UsageError(`Unknown format "${format}"`);
+  }
+  if (stream && format === "table") {
+    throw new UsageError("--stream needs the csv, json or ndjson format");
+  }
+
+  let maxWaitTime: number | undefined;
+  if (values["max-wait"] !== undefined) {
+    maxWaitTime = Number(values["max-wait"]);
+    if (!Number.isFinite(maxWaitTime) || maxWaitTime <= 0) {
+      throw new UsageError(`Invalid --max-wait "${values["max-wait"]}"`);
+    }
+  }
+
+  return {
+    statements,
+    branchId: required(values.branch, "branch", "KEBOOLA_BRANCH_ID"),
+    workspaceId: required(
+      values.workspace,
+      "workspace",
+      "KEBOOLA_WORKSPACE_ID"
+    ),
+    url: values.url ?? io.env.KEBOOLA_QUERY_URL ?? DEFAULT_URL,
+    token: required(values.token, "token", "KEBOOLA_TOKEN"),
+    format: format as OutputFormat,
+    dialect,
+    stream,
+    maxWaitTime,
+    interactive,
+  };
+}
+
+function write(stdout: NodeWritableLike, text: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (stdout.write(text)) {
+      resolve();
+      return;
+    }
+    const onDrain = () => {
+      stdout.removeListener("error", onError);
+      resolve();
+    };
+    const onError = (error: unknown) => {
+      stdout.removeListener("drain", onDrain);
+      reject(error);
+    };
+    stdout.once("drain", onDrain);
+    stdout.once("error", onError);
+  });
+}
+
+async function collectPages(
+  pages: AsyncIterable<QueryResult>
+): Promise<{ columns: string[]; rows: unknown[][] }> {
+  let columns: string[] = [];
+  const rows: unknown[][] = [];
+  for await (const page of pages) {
+    columns = page.columns.map((column) => column.name);
+    rows.push(...page.data);
+  }
+  return { columns, rows };
+}
+
+async function printResult(
+  client: Client,
+  options: CliOptions,
+  target: { queryJobId: string; statementId: string; rowsAffected?: number },
+  io: CliIO
+): Promise<void> {
+  const { queryJobId, statementId } = target;
+  const signal = io.signal;
+  const format = options.format;
+
+  if (options.stream) {
+    const rows = client.streamResults(queryJobId, statementId, { signal });
+    if (format === "json") {
+      let first = true;
+      await write(io.stdout, "[");
+      for await (const row of rows) {
+        await write(io.stdout, (first ? "\n" : ",\n") + JSON.stringify(row));
+        first = false;
+      }
+      await write(io.stdout, first ? "]\n" : "\n]\n");
+      return;
+    }
+    await exportRecords(rows, io.stdout, {
+      format: format as "csv" | "ndjson",
+      end: false,
+      signal,
+    });
+    return;
+  }
+
+  const pages = client.iterateResultPages({ queryJobId, statementId, signal });
+  if (format === "csv" || format === "ndjson") {
+    await exportResults(pages, io.stdout, { format, end: false, signal });
+    return;
+  }
+
+  const { columns, rows } = await collectPages(pages);
+  if (format === "json") {
+    const records = rows.map((row) =>
+      Object.fromEntries(columns.map((name, i) => [name, row[i] ?? null]))
+    );
+    await write(io.stdout, JSON.stringify(records, null, 2) + "\n");
+  } else if (columns.length > 0) {
+    await write(io.stdout, formatTable(columns, rows));
+  } else if (target.rowsAffected !== undefined) {
+    await write(io.stdout, `(${target.rowsAffected} rows affected)\n`);
+  }
+}
+
+function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) return ExitCode.USAGE;
+  if (error instanceof AbortError) return ExitCode.CANCELED;
+  if (error instanceof AuthenticationError) return ExitCode.AUTHENTICATION;
+  if (error instanceof ValidationError) return ExitCode.VALIDATION;
+  if (error instanceof ScriptSyntaxError) return ExitCode.VALIDATION;
+  if (error instanceof JobError) return ExitCode.JOB_FAILED;
+  if (error instanceof JobTimeoutError) return ExitCode.JOB_TIMEOUT;
+  return ExitCode.ERROR;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof AbortError) {
+    return "Canceled";
+  }
+  if (error instanceof JobError) {
+    const failed = error.failedStatements
+      .map((statement) => `  ${statement.id}: ${statement.error ?? "failed"}`)
+      .join("\n");
+    const message = `Job ${error.jobId} failed: ${error.message}`;
+    return failed ? `${message}\n${failed}` : message;
+  }
+  if (error instanceof JobTimeoutError) {
+    return `Job ${error.jobId} timed out: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run `kbc-query` with the given arguments.
+ *
+ * @param argv - Command-line arguments, without the node and script paths
+ * @param io - Streams and environment
+ * @returns Exit code, see `ExitCode`
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  try {
+    if (argv.includes("-h") || argv.includes("--help")) {
+      io.stdout.write(USAGE);
+      return ExitCode.OK;
+    }
+    if (argv.includes("-v") || argv.includes("--version")) {
+      io.stdout.write(`kbc-query ${VERSION}\n`);
+      return ExitCode.OK;
+    }
+
+    let options: CliOptions;
+    try {
+      options = await parseOptions(argv, io);
+    } catch (error) {
+      // parseArgs reports unknown or incomplete options with a TypeError
+      throw error instanceof TypeError ? new UsageError(error.message) : error;
+    }
+
+    const client = new Client({
+      baseUrl: options.url,
+      token: options.token,
+      fetch: io.fetch,
+      dialect: options.dialect,
+    });
+    if (options.interactive) {
+      const historyFile =
+        io.env.KEBOOLA_QUERY_HISTORY ?? join(homedir(), ".kbc_query_history");
+      await runRepl(
+        client,
+        { branchId: options.branchId, workspaceId: options.workspaceId },
+        {
+          input: io.stdin,
+          output: io.stdout,
+          terminal: io.stdin.isTTY,
+          historyFile: historyFile || undefined,
+          dialect: options.dialect,
+          signal: io.signal,
+        }
+      );
+      return ExitCode.OK;
+    }
+    const queryJobId = await client.submitJob({
+      branchId: options.branchId,
+      workspaceId: options.workspaceId,
+      statements: options.statements,
+      signal: io.signal,
+    });
+    // Ctrl-C cancels the job while waiting for it
+    const status = await client.waitForJob({
+      queryJobId,
+      maxWaitTime: options.maxWaitTime,
+      signal: io.signal,
+      cancelOnAbort: true,
+    });
+    if (status.status === "canceled") {
+      io.stderr.write(`kbc-query: Job ${queryJobId} was canceled\n`);
+      return ExitCode.CANCELED;
+    }
+    const last = status.statements[status.statements.length - 1];
+    if (last) {
+      await printResult(
+        client,
+        options,
+        { queryJobId, statementId: last.id, rowsAffected: last.rowsAffected },
+        io
+      );
+    }
+    return ExitCode.OK;
+  } catch (error) {
+    io.stderr.write(`kbc-query: ${errorMessage(error)}\n`);
+    if (error instanceof UsageError) {
+      io.stderr.write("Run kbc-query --help for usage\n");
+    }
+    return exitCodeFor(error);
+  }
+}
@@ -20,54 +20,360 @@
  * ```
  */
 
+import { decodeRecord, decodeResult, resolveDecodeOptions } from "./decode";
 import {
+  AbortError,
   AuthenticationError,
   JobError,
   JobTimeoutError,
+  MalformedResultError,
   NotFoundError,
   QueryServiceError,
+  RetryExhaustedError,
+  ScriptSyntaxError,
+  StreamTimeoutError,
   ValidationError,
 } from "./errors";
+import { isPastHistoryFilter, matchesHistoryFilter } from "./history";
+import { ConcurrencyLimiter } from "./limiter";
+import {
+  type ClientLogger,
+  createClientLogger,
+  redactHeaders,
+} from "./logging";
+import { mapRows } from "./rows";
+import { RetryStrategy } from "./retry";
+import { splitStatements } from "./script";
+import { renderStatement } from "./sql";
+import { SpanAttributes, markSpanFailed, withSpan } from "./telemetry";
+import { composeMiddleware } from "./transport";
+import { WorkspaceClient } from "./workspace";
 import {
   type ApiErrorResponse,
+  type BatchOutcome,
+  type BatchQuery,
   type ClientConfig,
+  type ClientHooks,
+  type ExecuteBatchOptions,
   type ExecuteQueryOptions,
+  type ExecuteScriptOptions,
+  type FetchFunction,
   type GetJobResultsOptions,
   type GetQueryHistoryOptions,
+  type IncrementalQueryOptions,
+  type IterateQueryHistoryOptions,
+  type IterateResultsOptions,
+  type JobState,
   type JobStatus,
+  type MappedQueryResult,
+  type Middleware,
   type QueryHistory,
   type QueryResult,
+  type QueueStats,
+  type RequestOptions,
+  type RetryAttempt,
+  type RetryRequest,
+  type RowSchema,
+  type ScriptLocation,
+  type Statement,
+  type StatementOutcome,
+  type StatementResult,
+  type SleepFunction,
+  type SqlDialect,
+  type StatementState,
+  type StatementWithWorkspaceInfo,
+  type ResultsStreamOptions,
+  type StreamResultsOptions,
   type SubmitJobOptions,
+  type SubmitJobReceipt,
+  type TelemetrySpan,
+  type TelemetryTracer,
+  type TransportRequest,
   type WaitForJobOptions,
+  type WatchJobOptions,
+  type JobWatchEvent,
+  type WorkspaceScope,
   isTerminalState,
 } from "./types";
 
-const VERSION = "0.1.4";
+export const VERSION = "0.1.4";
 
 const DEFAULT_TIMEOUT = 120000; // 2 minutes
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_POLL_INTERVAL_START = 100; // 100ms
 const DEFAULT_POLL_INTERVAL_MAX = 2000; // 2s
 const DEFAULT_MAX_WAIT_TIME = 300000; // 5 minutes
+const DEFAULT_PAGE_SIZE = 500;
+const DEFAULT_HISTORY_PAGE_SIZE = 500;
+const DEFAULT_PREFETCH = 1;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+/** Clock difference to the server below the resolution of its Date header */
+const CLOCK_DRIFT_TOLERANCE = 1000;
+/** Job IDs remembered so a recovery never returns an already received job */
+const RECEIVED_JOBS_LIMIT = 1000;
+const HISTORY_MAX_PAGES = 10;
+
+function generateRequestKey(): string {
+  const { crypto } = globalThis as {
+    crypto?: { randomUUID?: () => string };
+  };
+  if (crypto?.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Whether a failed submission may have been accepted by the server:
+ * network failures, timeouts and 5xx responses.
+ */
+function isAmbiguousFailure(error: unknown): boolean {
+  if (
+    !(error instanceof QueryServiceError) ||
+    error instanceof AbortError ||
+    error.retryable === false
+  ) {
+    return false;
+  }
+  return error.statusCode === undefined || error.statusCode >= 500;
+}
+
+/** Error for a failed job, reporting its failed statements */
+function jobFailure(
+  queryJobId: string,
+  status: JobStatus,
+  locations?: ScriptLocation[]
+): JobError {
+  const failedStatements = status.statements.flatMap((s, index) =>
+    s.status === "failed"
+      ? [{ id: s.id, error: s.error, location: locations?.[index] }]
+      : []
+  );
+
+  const firstError = failedStatements[0]?.error ?? "Job failed";
+  return new JobError(firstError, queryJobId, failedStatements);
+}
+
+/** Server time of the latest transition of a statement, if reported */
+function statementTimestamp(statement: Statement): string | undefined {
+  switch (statement.status) {
+    case "waiting":
+      return statement.createdAt;
+    case "processing":
+      return statement.executedAt ?? statement.createdAt;
+    default:
+      return statement.completedAt;
+  }
+}
+
+/** Result of reading a chunk from a results stream */
+type StreamChunk = Awaited<
+  ReturnType<ReadableStreamDefaultReader<Uint8Array>["read"]>
+>;
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Statement states after which a statement no longer changes */
+function isFinalStatementState(state: StatementState): boolean {
+  return state !== "waiting" && state !== "processing";
+}
+
+function abortError(signal: AbortSignal): AbortError {
+  return new AbortError("Operation was aborted", signal.reason);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError(signal!));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Create an AbortController that aborts after `timeout` ms or when the
+ * given signal aborts. `clear` stops both triggers.
+ */
+function timeoutController(
+  timeout: number,
+  signal?: AbortSignal
+): { controller: AbortController; clear: () => void } {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+  return {
+    controller,
+    clear: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
 }
 
 export class Client {
   private readonly baseUrl: string;
   private readonly token: string;
   private readonly timeout: number;
-  private readonly maxRetries: number;
+  private readonly retry: RetryStrategy;
   private readonly userAgent: string;
+  private readonly dialect: SqlDialect;
+  private readonly fetchFn: FetchFunction;
+  private readonly middleware: Middleware[];
+  private readonly hooks: ClientHooks[];
+  private readonly tracer?: TelemetryTracer;
+  private readonly log?: ClientLogger;
+  private readonly jobLimiter: ConcurrencyLimiter;
+  private readonly requestLimiter: ConcurrencyLimiter;
+  private readonly sleepFn?: SleepFunction;
+  /** Server clock minus local clock, when they drift apart noticeably */
+  private readonly serverClock = { offset: 0 };
+  /** Job IDs returned by submissions, oldest first */
+  private readonly receivedJobs = new Set<string>();
 
   constructor(config: ClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, "");
     this.token = config.token;
     this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
-    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retry = new RetryStrategy(
+      config.retry,
+      config.maxRetries ?? DEFAULT_MAX_RETRIES
+    );
     this.userAgent =
       config.userAgent ?? `keboola-query-service-ts-sdk/${VERSION}`;
+    this.dialect = config.dialect ?? "snowflake";
+    // Resolve the global lazily so it can be replaced after construction
+    this.fetchFn = config.fetch ?? ((url, init) => fetch(url, init));
+    this.middleware = [...(config.middleware ?? [])];
+    this.hooks = config.hooks ? [config.hooks].flat() : [];
+    this.tracer = config.tracer;
+    this.sleepFn = config.sleep;
+    this.log = createClientLogger(config);
+    if (this.log) {
+      this.hooks.push(this.log.hooks());
+    }
+    const queueLimits = {
+      maxQueueLength: config.maxQueueLength,
+      maxQueueWaitTime: config.maxQueueWaitTime,
+    };
+    this.jobLimiter = new ConcurrencyLimiter("jobs", {
+      limit: config.maxConcurrentJobs,
+      ...queueLimits,
+    });
+    this.requestLimiter = new ConcurrencyLimiter("requests", {
+      limit: config.maxConcurrentRequests,
+      ...queueLimits,
+    });
+  }
+
+  /**
+   * Create a client bound to a workspace.
+   *
+   * The scoped client shares transport, retries, hooks and concurrency
+   * limits with this client.
+   *
+   * @param scope - Branch and workspace ID, and defaults for its queries
+   * @returns Workspace-scoped client
+   *
+   * @example
+   * ```typescript
+   * const workspace = client.workspace({ branchId: '1261313', workspaceId: '2950146661' });
+   * const results = await workspace.executeQuery({ statements: ['SELECT 1'] });
+   * console.log(workspace.listJobs());
+   * ```
+   */
+  workspace(scope: WorkspaceScope): WorkspaceClient {
+    return new WorkspaceClient(this, scope);
+  }
+
+  /**
+   * Get the occupancy of the client-wide concurrency limits.
+   *
+   * @returns Running and queued jobs and HTTP requests
+   */
+  getQueueStats(): QueueStats {
+    return {
+      jobs: this.jobLimiter.stats(),
+      requests: this.requestLimiter.stats(),
+    };
+  }
+
+  /**
+   * Register lifecycle hooks.
+   *
+   * @param hooks - Hooks to call on client events
+   * @returns Function that removes the hooks again
+   *
+   * @example
+   * ```typescript
+   * const remove = client.addHooks({
+   *   onRetry: (event) => console.warn(`Retrying ${event.url} in ${event.delay}ms`),
+   *   onJobStateChange: (event) => console.log(event.queryJobId, event.current),
+   * });
+   * ```
+   */
+  addHooks(hooks: ClientHooks): () => void {
+    this.hooks.push(hooks);
+    return () => {
+      const index = this.hooks.indexOf(hooks);
+      if (index !== -1) {
+        this.hooks.splice(index, 1);
+      }
+    };
+  }
+
+  /** Call a hook on all registered hook sets, ignoring their errors */
+  private emit<K extends keyof ClientHooks>(
+    name: K,
+    event: Parameters<NonNullable<ClientHooks[K]>>[0]
+  ): void {
+    for (const hooks of this.hooks) {
+      try {
+        (hooks[name] as ((event: unknown) => void) | undefined)?.(event);
+      } catch {
+        // Observers must not break the client
+      }
+    }
+  }
+
+  /**
+   * Register middleware applied to every subsequent request.
+   *
+   * @param middleware - Middleware to append to the pipeline
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use(async (request, next) => {
+   *   request.headers['X-Correlation-Id'] = crypto.randomUUID();
+   *   const response = await next(request);
+   *   console.log(request.method, request.url, response.status);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /** Send a request through the middleware pipeline */
+  private send(request: TransportRequest): Promise<Response> {
+    return composeMiddleware(this.middleware, this.fetchFn)(request);
   }
 
   private buildHeaders(): Record<string, string> {
@@ -79,11 +385,11 @@ export class Client {
     };
   }
 
-  private handleError(
+  private createError(
     statusCode: number,
     errorData: ApiErrorResponse,
     responseText: string
-  ): never {
+  ): QueryServiceError {
     const message = errorData.exception ?? responseText;
     const options = {
       statusCode,
@@ -92,13 +398,38 @@ export class Client {
     };
 
     if (statusCode === 401) {
-      throw new AuthenticationError(message, options);
+      return new AuthenticationError(message, options);
     } else if (statusCode === 400) {
-      throw new ValidationError(message, options);
+      return new ValidationError(message, options);
     } else if (statusCode === 404) {
-      throw new NotFoundError(message, options);
+      return new NotFoundError(message, options);
     } else {
-      throw new QueryServiceError(message, options);
+      return new QueryServiceError(message, options);
+    }
+  }
+
+  /** Read an error response and convert it to a typed error */
+  private async errorFromResponse(
+    response: Response
+  ): Promise<QueryServiceError> {
+    const responseText = await response.text();
+    let errorData: ApiErrorResponse = {};
+    try {
+      errorData = JSON.parse(responseText) as ApiErrorResponse;
+    } catch {
+      // Not JSON, use raw text
+    }
+    return this.createError(response.status, errorData, responseText);
+  }
+
+  /** Wait between polls and retries, with the configured sleep function */
+  private async sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (!this.sleepFn) {
+      return sleep(ms, signal);
+    }
+    await this.sleepFn(ms, signal);
+    if (signal?.aborted) {
+      throw abortError(signal);
     }
   }
 
@@ -108,144 +439,402 @@ export class Client {
     options?: {
       body?: unknown;
       params?: Record<string, string | number>;
+      signal?: AbortSignal;
+      headers?: Record<string, string>;
+      /** Safe to repeat regardless of the HTTP method */
+      idempotent?: boolean;
     }
   ): Promise<T> {
-    let lastError: Error | null = null;
-    let lastResponse: Response | null = null;
-
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
-        let url = `${this.baseUrl}${path}`;
-
-        if (options?.params) {
-          const searchParams = new URLSearchParams();
-          for (const [key, value] of Object.entries(options.params)) {
-            searchParams.append(key, String(value));
-          }
-          url += `?${searchParams.toString()}`;
-        }
+    const signal = options?.signal;
+    const retryRequest: RetryRequest = {
+      method,
+      path,
+      idempotent: options?.idempotent ?? false,
+    };
 
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    let url = `${this.baseUrl}${path}`;
+    if (options?.params) {
+      const searchParams = new URLSearchParams();
+      for (const [key, value] of Object.entries(options.params)) {
+        searchParams.append(key, String(value));
+      }
+      url += `?${searchParams.toString()}`;
+    }
 
-        const response = await fetch(url, {
-          method,
-          headers: this.buildHeaders(),
-          body: options?.body ? JSON.stringify(options.body) : undefined,
-          signal: controller.signal,
-        });
+    const attempts: RetryAttempt[] = [];
+    const startTime = Date.now();
 
-        clearTimeout(timeoutId);
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw abortError(signal);
+      }
 
-        const shouldRetry =
-          response.status >= 500 || response.status === 429;
+      // Time spent waiting for a slot doesn't count towards the timeout
+      const release =
+        this.requestLimiter.tryAcquire() ??
+        (await this.requestLimiter.acquire({ signal }));
+      const startedAt = Date.now();
+      const headers = { ...this.buildHeaders(), ...options?.headers };
+      const { controller, clear } = timeoutController(this.timeout, signal);
+      let response: Response | undefined;
+      let error: Error;
 
-        if (response.status >= 400) {
-          const responseText = await response.text();
-          let errorData: ApiErrorResponse = {};
+      // Hooks observe only, requests are changed with middleware
+      this.emit("onRequest", {
+        method,
+        url,
+        headers: Object.freeze(redactHeaders(headers)),
+        attempt,
+      });
 
-          try {
-            errorData = JSON.parse(responseText) as ApiErrorResponse;
-          } catch {
-            // Not JSON, use raw text
-          }
+      try {
+        const outcome = await withSpan(
+          this.tracer,
+          `HTTP ${method}`,
+          {
+            [SpanAttributes.HTTP_METHOD]: method,
+            [SpanAttributes.URL]: url,
+            [SpanAttributes.HTTP_RESEND_COUNT]: attempt,
+          },
+          async (span) => {
+            response = await this.send({
+              method,
+              url,
+              headers,
+              body: options?.body ? JSON.stringify(options.body) : undefined,
+              signal: controller.signal,
+            });
+            span?.setAttribute(SpanAttributes.HTTP_STATUS_CODE, response.status);
+            this.trackServerClock(response);
 
-          if (shouldRetry && attempt < this.maxRetries) {
-            lastResponse = response;
-            const waitTime = Math.min(Math.pow(2, attempt) * 100, 10000);
-            const jitter = Math.random() * 100;
-            await sleep(waitTime + jitter);
-            continue;
+            if (response.status < 400) {
+              return { data: (await response.json()) as T };
+            }
+            const responseError = await this.errorFromResponse(response);
+            if (span) {
+              markSpanFailed(span, responseError);
+            }
+            return { error: responseError };
           }
+        );
 
-          this.handleError(response.status, errorData, responseText);
+        this.emit("onResponse", {
+          method,
+          url,
+          attempt,
+          status: response?.status,
+          duration: Date.now() - startedAt,
+          error: outcome.error,
+        });
+        if (!outcome.error) {
+          return outcome.data as T;
         }
-
-        return (await response.json()) as T;
-      } catch (error) {
-        if (error instanceof QueryServiceError) {
-          throw error;
+        error = outcome.error;
+      } catch (e) {
+        this.emit("onResponse", {
+          method,
+          url,
+          attempt,
+          status: response?.status,
+          duration: Date.now() - startedAt,
+          error: e as Error,
+        });
+        if (signal?.aborted) {
+          throw abortError(signal);
         }
+        error = e as Error;
+      } finally {
+        clear();
+        release();
+      }
 
-        lastError = error as Error;
+      const record: RetryAttempt = {
+        attempt,
+        status: response?.status,
+        error: error.message,
+        startedAt,
+        duration: Date.now() - startedAt,
+      };
+      attempts.push(record);
 
-        if (attempt < this.maxRetries) {
-          const waitTime = Math.min(Math.pow(2, attempt) * 100, 10000);
-          const jitter = Math.random() * 100;
-          await sleep(waitTime + jitter);
-          continue;
+      const delay = this.retry.nextDelay(retryRequest, {
+        error,
+        response,
+        attempt,
+        elapsed: Date.now() - startTime,
+      });
+
+      if (delay === undefined) {
+        if (error instanceof QueryServiceError) {
+          throw error;
         }
+        throw new QueryServiceError(`Request failed: ${error.message}`);
       }
-    }
 
-    if (lastResponse && lastResponse.status >= 400) {
-      const responseText = await lastResponse.text();
-      let errorData: ApiErrorResponse = {};
-      try {
-        errorData = JSON.parse(responseText) as ApiErrorResponse;
-      } catch {
-        // Not JSON
+      if (delay === "exhausted") {
+        throw new RetryExhaustedError(
+          `Request failed after ${attempts.length} attempts: ${error.message}`,
+          attempts,
+          error instanceof QueryServiceError
+            ? {
+                statusCode: error.statusCode,
+                exceptionId: error.exceptionId,
+                context: error.context,
+              }
+            : undefined
+        );
       }
-      this.handleError(lastResponse.status, errorData, responseText);
-    }
 
-    throw new QueryServiceError(
-      `Request failed after ${this.maxRetries + 1} attempts: ${lastError?.message ?? "Unknown error"}`
-    );
+      record.delay = delay;
+      this.emit("onRetry", {
+        method,
+        url,
+        attempt,
+        delay,
+        status: response?.status,
+        error,
+      });
+      await this.sleep(delay, signal);
+    }
   }
 
   // =========================================================================
   // Low-level API methods
   // =========================================================================
 
+  /** Update the server clock offset from the Date header of a response */
+  private trackServerClock(response: Response): void {
+    const date = Date.parse(response.headers?.get("Date") ?? "");
+    if (Number.isNaN(date)) {
+      return;
+    }
+    const offset = date - Date.now();
+    this.serverClock.offset =
+      Math.abs(offset) > CLOCK_DRIFT_TOLERANCE ? offset : 0;
+  }
+
+  /** Remember a job ID returned to the caller */
+  private receiveJob(queryJobId: string): void {
+    this.receivedJobs.add(queryJobId);
+    if (this.receivedJobs.size > RECEIVED_JOBS_LIMIT) {
+      const [oldest] = this.receivedJobs;
+      this.receivedJobs.delete(oldest);
+    }
+  }
+
   /**
    * Submit a query job without waiting for completion.
    *
+   * Submissions are duplicate-safe, see `submitJobWithReceipt`.
+   *
    * @param options - Job submission options
    * @returns Query job ID
    */
   async submitJob(options: SubmitJobOptions): Promise<string> {
-    const data = await this.request<{ queryJobId: string }>(
-      "POST",
-      `/api/v1/branches/${options.branchId}/workspaces/${options.workspaceId}/queries`,
-      {
-        body: {
-          statements: options.statements,
-          transactional: options.transactional ?? true,
-          actorType: options.actorType ?? "user",
-        },
-      }
+    const receipt = await this.submitJobWithReceipt(options);
+    return receipt.queryJobId;
+  }
+
+  /**
+   * Submit a query job and report whether it was newly created.
+   *
+   * Each submission carries a client-generated request key. When the outcome
+   * is ambiguous (network failure, timeout or 5xx after the request was
+   * sent), the query history is searched for a job with the same statements
+   * created since shortly before the first attempt, in server time. If one
+   * is found it is returned as recovered, otherwise the job is submitted
+   * again. Jobs this client already returned, from a submission or an
+   * earlier recovery, are never recovered again.
+   *
+   * @param options - Job submission options
+   * @returns Receipt with the job ID and whether it was recovered
+   */
+  async submitJobWithReceipt(
+    options: SubmitJobOptions
+  ): Promise<SubmitJobReceipt> {
+    const dialect = options.dialect ?? this.dialect;
+    const requestKey = options.requestKey ?? generateRequestKey();
+    const statements = options.statements.map((statement) =>
+      renderStatement(statement, dialect)
     );
-    return data.queryJobId;
+    // Slack for drift below the tolerance and creation times in whole seconds
+    const submittedSince =
+      Math.floor(
+        (Date.now() + this.serverClock.offset - CLOCK_DRIFT_TOLERANCE) / 1000
+      ) * 1000;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await this.request<{ queryJobId: string }>(
+          "POST",
+          `/api/v1/branches/${options.branchId}/workspaces/${options.workspaceId}/queries`,
+          {
+            body: {
+              statements,
+              transactional: options.transactional ?? true,
+              actorType: options.actorType ?? "user",
+            },
+            headers: { "Idempotency-Key": requestKey },
+            signal: options.signal,
+          }
+        );
+        this.receiveJob(data.queryJobId);
+        this.log?.jobSubmitted({
+          queryJobId: data.queryJobId,
+          branchId: options.branchId,
+          workspaceId: options.workspaceId,
+          statements,
+          recovered: false,
+        });
+        const receipt = {
+          queryJobId: data.queryJobId,
+          requestKey,
+          recovered: false,
+        };
+        options.onSubmitted?.(receipt);
+        return receipt;
+      } catch (error) {
+        if (options.deduplicate === false || !isAmbiguousFailure(error)) {
+          throw error;
+        }
+
+        // If the history can't be checked, resubmitting could duplicate the job
+        const candidates = await this.findSubmittedJobs(
+          options,
+          statements,
+          submittedSince
+        ).catch(() => {
+          throw error;
+        });
+        const recovered = candidates.find((id) => !this.receivedJobs.has(id));
+        if (recovered) {
+          this.receiveJob(recovered);
+          this.log?.jobSubmitted({
+            queryJobId: recovered,
+            branchId: options.branchId,
+            workspaceId: options.workspaceId,
+            statements,
+            recovered: true,
+          });
+          const receipt = {
+            queryJobId: recovered,
+            requestKey,
+            recovered: true,
+          };
+          options.onSubmitted?.(receipt);
+          return receipt;
+        }
+        if (attempt >= this.retry.maxRetries) {
+          throw error;
+        }
+        await this.sleep(this.retry.backoffDelay(attempt), options.signal);
+      }
+    }
+  }
+
+  /**
+   * Find jobs with exactly the given statements created since `since` in
+   * the workspace query history, newest first.
+   */
+  private async findSubmittedJobs(
+    options: SubmitJobOptions,
+    statements: string[],
+    since: number
+  ): Promise<string[]> {
+    const jobs = new Map<string, string[]>();
+    let afterId: string | undefined;
+
+    for (let page = 0; page < HISTORY_MAX_PAGES; page++) {
+      const history = await this.getQueryHistory({
+        branchId: options.branchId,
+        workspaceId: options.workspaceId,
+        afterId,
+        pageSize: 100,
+        signal: options.signal,
+      });
+
+      let reachedWindowStart = false;
+      for (const statement of history.statements) {
+        const createdAt = statement.createdAt
+          ? Date.parse(statement.createdAt)
+          : NaN;
+        // Without a creation time a job can't be told apart from older ones
+        if (Number.isNaN(createdAt)) {
+          continue;
+        }
+        if (createdAt < since) {
+          reachedWindowStart = true;
+          continue;
+        }
+        const queries = jobs.get(statement.queryJobId) ?? [];
+        queries.push(statement.query);
+        jobs.set(statement.queryJobId, queries);
+      }
+
+      if (reachedWindowStart || history.statements.length < 100) {
+        break;
+      }
+      afterId = history.statements[history.statements.length - 1].id;
+    }
+
+    const expected = [...statements].sort();
+    return [...jobs]
+      .filter(([, queries]) => {
+        const actual = [...queries].sort();
+        return (
+          actual.length === expected.length &&
+          actual.every((query, index) => query === expected[index])
+        );
+      })
+      .map(([queryJobId]) => queryJobId);
   }
 
   /**
    * Get the status of a query job.
    *
    * @param queryJobId - Query job ID
+   * @param options - Request options
    * @returns Job status with statements
    */
-  async getJobStatus(queryJobId: string): Promise<JobStatus> {
-    return this.request<JobStatus>("GET", `/api/v1/queries/${queryJobId}`);
+  async getJobStatus(
+    queryJobId: string,
+    options?: RequestOptions
+  ): Promise<JobStatus> {
+    return this.request<JobStatus>("GET", `/api/v1/queries/${queryJobId}`, {
+      signal: options?.signal,
+    });
   }
 
   /**
    * Get results for a specific statement.
    *
    * @param options - Options for getting results
-   * @returns Query result with columns and data
+   * @returns Query result with columns and data, plus mapped `rows` when a
+   *   `rowSchema` is given
+   * @throws {RowValidationError} If a row does not match the row schema
    */
+  async getJobResults<T>(
+    options: GetJobResultsOptions & { rowSchema: RowSchema<T> }
+  ): Promise<MappedQueryResult<T>>;
+  async getJobResults(options: GetJobResultsOptions): Promise<QueryResult>;
   async getJobResults(options: GetJobResultsOptions): Promise<QueryResult> {
-    return this.request<QueryResult>(
+    const result = await this.request<QueryResult>(
       "GET",
       `/api/v1/queries/${options.queryJobId}/${options.statementId}/results`,
       {
         params: {
           offset: options.offset ?? 0,
-          pageSize: options.pageSize ?? 500,
+          pageSize: options.pageSize ?? DEFAULT_PAGE_SIZE,
         },
+        signal: options.signal,
       }
     );
+
+    const decodeOptions = resolveDecodeOptions(options.decode);
+    const decoded = decodeOptions ? decodeResult(result, decodeOptions) : result;
+    return options.rowSchema
+      ? mapRows(decoded, options.rowSchema, options.statementId)
+      : decoded;
   }
 
   /**
@@ -253,14 +842,21 @@ export class Client {
    *
    * @param queryJobId - Query job ID
    * @param reason - Optional cancellation reason
+   * @param options - Request options
    * @returns Query job ID
    */
-  async cancelJob(queryJobId: string, reason?: string): Promise<string> {
+  async cancelJob(
+    queryJobId: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<string> {
     const data = await this.request<{ queryJobId: string }>(
       "POST",
       `/api/v1/queries/${queryJobId}/cancel`,
       {
         body: { reason: reason ?? "Canceled by user" },
+        signal: options?.signal,
+        idempotent: true,
       }
     );
     return data.queryJobId;
@@ -274,7 +870,7 @@ export class Client {
    */
   async getQueryHistory(options: GetQueryHistoryOptions): Promise<QueryHistory> {
     const params: Record<string, string | number> = {
-      pageSize: options.pageSize ?? 500,
+      pageSize: options.pageSize ?? DEFAULT_HISTORY_PAGE_SIZE,
     };
     if (options.afterId) {
       params.afterId = options.afterId;
@@ -283,10 +879,64 @@ export class Client {
     return this.request<QueryHistory>(
       "GET",
       `/api/v1/branches/${options.branchId}/workspaces/${options.workspaceId}/queries`,
-      { params }
+      { params, signal: options.signal }
     );
   }
 
+  /**
+   * Iterate over the full query history of a workspace, newest first.
+   *
+   * Pages are fetched with `getQueryHistory`, following `afterId`.
+   * Statements are filtered on the client. With a `createdAt.from` bound,
+   * iteration stops at the first statement created before it.
+   *
+   * @param options - Workspace, page size and filter
+   * @yields Matching history statements
+   *
+   * @example
+   * ```typescript
+   * for await (const statement of client.iterateQueryHistory({
+   *   branchId: '1261313',
+   *   workspaceId: '2950146661',
+   *   status: 'failed',
+   *   createdAt: { from: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+   *   query: /orders/i
+   * })) {
+   *   console.log(statement.queryJobId, statement.error);
+   * }
+   * ```
+   */
+  async *iterateQueryHistory(
+    options: IterateQueryHistoryOptions
+  ): AsyncGenerator<StatementWithWorkspaceInfo, void, unknown> {
+    const pageSize = options.pageSize ?? DEFAULT_HISTORY_PAGE_SIZE;
+    let afterId = options.afterId;
+
+    while (true) {
+      const history = await this.getQueryHistory({
+        branchId: options.branchId,
+        workspaceId: options.workspaceId,
+        afterId,
+        pageSize,
+        signal: options.signal,
+      });
+
+      for (const statement of history.statements) {
+        if (isPastHistoryFilter(statement, options)) {
+          return;
+        }
+        if (matchesHistoryFilter(statement, options)) {
+          yield statement;
+        }
+      }
+
+      if (history.statements.length < pageSize) {
+        return;
+      }
+      afterId = history.statements[history.statements.length - 1].id;
+    }
+  }
+
   // =========================================================================
   // High-level convenience methods
   // =========================================================================
@@ -298,8 +948,54 @@ export class Client {
    * @returns Final job status
    * @throws {JobTimeoutError} If job doesn't complete within maxWaitTime
    * @throws {JobError} If job fails
+   * @throws {AbortError} If the signal aborts, after canceling the job when
+   *   `cancelOnAbort` is set
    */
   async waitForJob(options: WaitForJobOptions): Promise<JobStatus> {
+    const status = await this.settleJob(options);
+    if (status.status === "failed") {
+      throw jobFailure(options.queryJobId, status);
+    }
+    return status;
+  }
+
+  /**
+   * Wait for a job to reach a terminal state, returning failed jobs
+   * instead of throwing.
+   */
+  private async settleJob(options: WaitForJobOptions): Promise<JobStatus> {
+    try {
+      return await this.pollJob(options);
+    } catch (error) {
+      if (error instanceof AbortError && options.cancelOnAbort) {
+        // Best effort, the abort is what the caller needs to see
+        await this.cancelJob(options.queryJobId, "Aborted by client").catch(
+          () => undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async pollJob(options: WaitForJobOptions): Promise<JobStatus> {
+    for await (const status of this.pollStatuses(options)) {
+      if (isTerminalState(status.status)) {
+        return status;
+      }
+    }
+    // pollStatuses only ends after yielding a terminal status
+    throw new QueryServiceError("Polling ended unexpectedly");
+  }
+
+  /**
+   * Poll the job status with backoff until the job reaches a terminal
+   * state, emitting poll, state change and statement hooks.
+   *
+   * @throws {JobTimeoutError} If job doesn't complete within maxWaitTime
+   */
+  private async *pollStatuses(
+    options: WaitForJobOptions
+  ): AsyncGenerator<JobStatus, void, unknown> {
     const maxWaitTime = options.maxWaitTime ?? DEFAULT_MAX_WAIT_TIME;
     const pollIntervalStart =
       options.pollIntervalStart ?? DEFAULT_POLL_INTERVAL_START;
@@ -307,22 +1003,46 @@ export class Client {
 
     const startTime = Date.now();
     let pollInterval = pollIntervalStart;
+    let previousState: JobState | undefined;
+    const statementStates = new Map<string, StatementState>();
 
-    while (true) {
-      const status = await this.getJobStatus(options.queryJobId);
-
-      if (isTerminalState(status.status)) {
-        if (status.status === "failed") {
-          const failedStatements = status.statements
-            .filter((s) => s.status === "failed")
-            .map((s) => ({ id: s.id, error: s.error }));
-
-          const firstError =
-            failedStatements[0]?.error ?? "Job failed";
+    for (let iteration = 0; ; iteration++) {
+      const status = await this.getJobStatus(options.queryJobId, {
+        signal: options.signal,
+      });
 
-          throw new JobError(firstError, options.queryJobId, failedStatements);
+      this.emit("onPoll", {
+        queryJobId: options.queryJobId,
+        iteration,
+        status: status.status,
+        elapsed: Date.now() - startTime,
+      });
+      if (status.status !== previousState) {
+        this.emit("onJobStateChange", {
+          queryJobId: options.queryJobId,
+          previous: previousState,
+          current: status.status,
+          job: status,
+        });
+        previousState = status.status;
+      }
+      for (const statement of status.statements) {
+        const previous = statementStates.get(statement.id);
+        statementStates.set(statement.id, statement.status);
+        if (
+          statement.status !== previous &&
+          isFinalStatementState(statement.status)
+        ) {
+          this.emit("onStatementComplete", {
+            queryJobId: options.queryJobId,
+            statement,
+          });
         }
-        return status;
+      }
+
+      yield status;
+      if (isTerminalState(status.status)) {
+        return;
       }
 
       const elapsed = Date.now() - startTime;
@@ -333,71 +1053,680 @@ export class Client {
         );
       }
 
-      await sleep(pollInterval);
+      await this.sleep(pollInterval, options.signal);
       pollInterval = Math.min(pollInterval * 1.5, pollIntervalMax);
     }
   }
 
   /**
-   * Execute query and wait for results.
+   * Watch a job, yielding every job state change and statement status
+   * transition until the job reaches a terminal state.
    *
-   * This is a convenience method that submits a job, waits for completion,
-   * and fetches results for all statements.
+   * The first poll yields the initial state of the job and of every
+   * statement, with `previous` unset. Failed jobs are reported as a
+   * transition to "failed", not thrown. Polling uses the same backoff as
+   * `waitForJob`.
    *
-   * @param options - Query execution options
-   * @returns Array of QueryResult, one per statement
-   * @throws {JobError} If job fails
-   * @throws {JobTimeoutError} If job doesn't complete in time
+   * @param queryJobId - Query job ID
+   * @param options - Polling options
+   * @yields Job and statement transitions, in the order they were observed
+   * @throws {JobTimeoutError} If job doesn't complete within maxWaitTime
    *
    * @example
    * ```typescript
-   * const results = await client.executeQuery({
-   *   branchId: '1261313',
-   *   workspaceId: '2950146661',
-   *   statements: ['SELECT * FROM orders LIMIT 10']
-   * });
+   * for await (const event of client.watchJob(jobId)) {
+   *   if (event.type === 'statement' && event.current === 'completed') {
+   *     progress.advance(event.statement.id, event.rowsAffected);
+   *   }
+   * }
+   * ```
+   */
+  async *watchJob(
+    queryJobId: string,
+    options?: WatchJobOptions
+  ): AsyncGenerator<JobWatchEvent, void, unknown> {
+    let previousState: JobState | undefined;
+    const statementStates = new Map<string, StatementState>();
+
+    for await (const job of this.pollStatuses({ ...options, queryJobId })) {
+      if (job.status !== previousState) {
+        yield {
+          type: "job",
+          queryJobId,
+          previous: previousState,
+          current: job.status,
+          job,
+          timestamp: new Date(job.changedAt ?? Date.now()),
+        };
+        previousState = job.status;
+      }
+
+      for (const [index, statement] of job.statements.entries()) {
+        const previous = statementStates.get(statement.id);
+        if (statement.status === previous) {
+          continue;
+        }
+        statementStates.set(statement.id, statement.status);
+        yield {
+          type: "statement",
+          queryJobId,
+          statement,
+          index,
+          previous,
+          current: statement.status,
+          rowsAffected: statement.rowsAffected,
+          timestamp: new Date(statementTimestamp(statement) ?? Date.now()),
+        };
+      }
+    }
+  }
+
+  /**
+   * Execute query and wait for results.
+   *
+   * This is a convenience method that submits a job, waits for completion,
+   * and fetches results for all statements.
+   *
+   * @param options - Query execution options
+   * @returns Array of QueryResult, one per statement
+   * @throws {JobError} If job fails
+   * @throws {JobTimeoutError} If job doesn't complete in time
+   * @throws {RowValidationError} If a row does not match the row schema
+   *
+   * @example
+   * ```typescript
+   * const results = await client.executeQuery({
+   *   branchId: '1261313',
+   *   workspaceId: '2950146661',
+   *   statements: ['SELECT * FROM orders LIMIT 10']
+   * });
    *
    * for (const result of results) {
    *   console.log('Columns:', result.columns.map(c => c.name));
    *   console.log('Data:', result.data);
    * }
    * ```
+   *
+   * @example Typed rows
+   * ```typescript
+   * const [orders] = await client.executeQuery({
+   *   branchId: '1261313',
+   *   workspaceId: '2950146661',
+   *   statements: ['SELECT id, total FROM orders'],
+   *   decode: true,
+   *   rowSchema: z.object({ id: z.string(), total: z.number() })
+   * });
+   *
+   * orders.rows; // { id: string; total: number }[]
+   * ```
    */
-  async executeQuery(options: ExecuteQueryOptions): Promise<QueryResult[]> {
-    // Submit job
-    const jobId = await this.submitJob({
-      branchId: options.branchId,
-      workspaceId: options.workspaceId,
-      statements: options.statements,
-      transactional: options.transactional,
-      actorType: options.actorType,
-    });
+  async executeQuery<T>(
+    options: ExecuteQueryOptions & { settled: true; rowSchema: RowSchema<T> }
+  ): Promise<StatementOutcome<MappedQueryResult<T>>[]>;
+  async executeQuery(
+    options: ExecuteQueryOptions & { settled: true }
+  ): Promise<StatementOutcome[]>;
+  async executeQuery<T>(
+    options: ExecuteQueryOptions & { rowSchema: RowSchema<T> }
+  ): Promise<MappedQueryResult<T>[]>;
+  async executeQuery(options: ExecuteQueryOptions): Promise<QueryResult[]>;
+  async executeQuery(
+    options: ExecuteQueryOptions
+  ): Promise<QueryResult[] | StatementOutcome[]> {
+    return this.traceQuery(options);
+  }
 
-    // Wait for completion
-    const status = await this.waitForJob({
-      queryJobId: jobId,
-      maxWaitTime: options.maxWaitTime,
+  /**
+   * Execute a SQL script and wait for results.
+   *
+   * The script is split with `splitStatements` in the dialect of the query,
+   * and the statements run as one job. When the job fails, the failed
+   * statements of the `JobError` have the lines of the script they came from.
+   *
+   * @param options - Script execution options
+   * @returns Array of QueryResult, one per statement of the script
+   * @throws {ScriptSyntaxError} If the script cannot be split or has no
+   *   statements
+   * @throws {JobError} If job fails
+   * @throws {JobTimeoutError} If job doesn't complete in time
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await client.executeScript({
+   *     branchId: '1261313',
+   *     workspaceId: '2950146661',
+   *     script: await readFile('load.sql', 'utf8')
+   *   });
+   * } catch (error) {
+   *   if (error instanceof JobError) {
+   *     const [failed] = error.failedStatements;
+   *     console.error(`line ${failed.location?.startLine}: ${failed.error}`);
+   *   }
+   * }
+   * ```
+   */
+  async executeScript(options: ExecuteScriptOptions): Promise<QueryResult[]> {
+    const { script, ...rest } = options;
+    const statements = splitStatements(script, {
+      dialect: options.dialect ?? this.dialect,
     });
+    if (statements.length === 0) {
+      throw new ScriptSyntaxError("Script has no statements", 1);
+    }
+    const results = await this.traceQuery(
+      { ...rest, statements: statements.map((statement) => statement.sql) },
+      statements.map(({ startLine, endLine }) => ({ startLine, endLine }))
+    );
+    return results as QueryResult[];
+  }
+
+  private traceQuery(
+    options: ExecuteQueryOptions,
+    locations?: ScriptLocation[]
+  ): Promise<QueryResult[] | StatementOutcome[]> {
+    return withSpan(
+      this.tracer,
+      "keboola.executeQuery",
+      {
+        [SpanAttributes.DB_SYSTEM]: options.dialect ?? this.dialect,
+        [SpanAttributes.BRANCH_ID]: options.branchId,
+        [SpanAttributes.WORKSPACE_ID]: options.workspaceId,
+        [SpanAttributes.STATEMENT_COUNT]: options.statements.length,
+      },
+      (span) => this.runQuery(options, span, locations)
+    );
+  }
+
+  private async runQuery(
+    options: ExecuteQueryOptions,
+    span?: TelemetrySpan,
+    locations?: ScriptLocation[]
+  ): Promise<QueryResult[] | StatementOutcome[]> {
+    // The job occupies a slot until it finishes, results are fetched outside
+    const { jobId, status } = await this.jobLimiter.run(
+      async () => {
+        // Submit job
+        const jobId = await this.submitJob({
+          branchId: options.branchId,
+          workspaceId: options.workspaceId,
+          statements: options.statements,
+          dialect: options.dialect,
+          transactional: options.transactional,
+          actorType: options.actorType,
+          onSubmitted: options.onSubmitted,
+          signal: options.signal,
+        });
+        span?.setAttribute(SpanAttributes.QUERY_JOB_ID, jobId);
+
+        // Wait for completion
+        const status = await this.settleJob({
+          queryJobId: jobId,
+          maxWaitTime: options.maxWaitTime,
+          signal: options.signal,
+          cancelOnAbort: options.cancelOnAbort,
+        });
+        return { jobId, status };
+      },
+      { priority: options.priority, signal: options.signal }
+    );
+
+    if (options.settled) {
+      return this.settleStatements(jobId, status, options, span);
+    }
+    if (status.status === "failed") {
+      throw jobFailure(jobId, status, locations);
+    }
 
     // Fetch results for each statement
     const results: QueryResult[] = [];
     for (const statement of status.statements) {
-      const result = await this.getJobResults({
-        queryJobId: jobId,
-        statementId: statement.id,
-      });
-      results.push(result);
+      results.push(await this.fetchStatementResult(jobId, statement.id, options));
     }
 
+    span?.setAttribute(
+      SpanAttributes.ROW_COUNT,
+      results.reduce((total, result) => total + result.data.length, 0)
+    );
     return results;
   }
 
+  /**
+   * Execute query and yield the result of each statement as soon as it
+   * completes.
+   *
+   * Statement progress is polled with `getJobStatus`, and results of
+   * completed statements are fetched concurrently while the job runs.
+   * Results are yielded in the order the statements completed.
+   *
+   * @param options - Query execution options
+   * @yields Result of each completed statement, with its position
+   * @throws {JobError} If job fails, after yielding the completed statements
+   * @throws {JobTimeoutError} If job doesn't complete in time
+   * @throws {RowValidationError} If a row does not match the row schema
+   *
+   * @example
+   * ```typescript
+   * for await (const { index, result } of client.executeQueryIncremental({
+   *   branchId: '1261313',
+   *   workspaceId: '2950146661',
+   *   statements: [slowReport, otherSlowReport]
+   * })) {
+   *   render(index, result.data);
+   * }
+   * ```
+   */
+  executeQueryIncremental<T>(
+    options: IncrementalQueryOptions & { rowSchema: RowSchema<T> }
+  ): AsyncGenerator<StatementResult<MappedQueryResult<T>>, void, unknown>;
+  executeQueryIncremental(
+    options: IncrementalQueryOptions
+  ): AsyncGenerator<StatementResult, void, unknown>;
+  async *executeQueryIncremental(
+    options: IncrementalQueryOptions
+  ): AsyncGenerator<StatementResult, void, unknown> {
+    const release = await this.jobLimiter.acquire({
+      priority: options.priority,
+      signal: options.signal,
+    });
+
+    // Stops polling and fetching when the consumer stops early
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal!.reason);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    const signal = controller.signal;
+
+    const pending: Promise<StatementResult>[] = [];
+    let polling = true;
+    let poller: Promise<void> | undefined;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+
+    try {
+      const queryJobId = await this.submitJob({
+        branchId: options.branchId,
+        workspaceId: options.workspaceId,
+        statements: options.statements,
+        dialect: options.dialect,
+        transactional: options.transactional,
+        actorType: options.actorType,
+        onSubmitted: options.onSubmitted,
+        signal,
+      });
+
+      let finalStatus: JobStatus | undefined;
+      let pollError: unknown;
+      const fetching = new Set<string>();
+
+      // Poll in the background, so results are yielded as soon as fetched
+      poller = (async () => {
+        try {
+          for await (const status of this.pollStatuses({
+            queryJobId,
+            maxWaitTime: options.maxWaitTime,
+            signal,
+          })) {
+            for (const [index, statement] of status.statements.entries()) {
+              if (
+                statement.status !== "completed" ||
+                fetching.has(statement.id)
+              ) {
+                continue;
+              }
+              fetching.add(statement.id);
+              const result = this.fetchStatementResult(
+                queryJobId,
+                statement.id,
+                { ...options, signal }
+              ).then((result) => ({ statement, index, result }));
+              // Fetches may be abandoned when the consumer stops early
+              result.catch(() => undefined);
+              pending.push(result);
+            }
+            if (isTerminalState(status.status)) {
+              finalStatus = status;
+              release();
+            }
+            notify();
+          }
+        } catch (error) {
+          pollError = error;
+        } finally {
+          polling = false;
+          notify();
+        }
+      })();
+
+      try {
+        while (pending.length > 0 || polling) {
+          if (pending.length > 0) {
+            yield await pending.shift()!;
+          } else {
+            await new Promise<void>((resolve) => (wake = resolve));
+          }
+        }
+        if (pollError) {
+          throw pollError;
+        }
+      } catch (error) {
+        if (
+          error instanceof AbortError &&
+          options.cancelOnAbort &&
+          !finalStatus
+        ) {
+          // Best effort, the abort is what the caller needs to see
+          await this.cancelJob(queryJobId, "Aborted by client").catch(
+            () => undefined
+          );
+        }
+        throw error;
+      }
+
+      if (finalStatus?.status === "failed") {
+        throw jobFailure(queryJobId, finalStatus);
+      }
+    } finally {
+      controller.abort();
+      await poller;
+      options.signal?.removeEventListener("abort", onAbort);
+      release();
+    }
+  }
+
+  /**
+   * Build the per-statement outcomes of a finished job for `settled` mode,
+   * fetching the results of completed statements.
+   */
+  private async settleStatements(
+    queryJobId: string,
+    status: JobStatus,
+    options: ExecuteQueryOptions,
+    span?: TelemetrySpan
+  ): Promise<StatementOutcome[]> {
+    const outcomes: StatementOutcome[] = [];
+    let rowCount = 0;
+
+    for (const statement of status.statements) {
+      const outcome: StatementOutcome = {
+        statement,
+        status: statement.status,
+      };
+      if (statement.status === "completed") {
+        outcome.result = await this.fetchStatementResult(
+          queryJobId,
+          statement.id,
+          options
+        );
+        rowCount += outcome.result.data.length;
+      }
+      if (statement.error !== undefined) {
+        outcome.error = statement.error;
+      }
+      outcomes.push(outcome);
+    }
+
+    span?.setAttribute(SpanAttributes.ROW_COUNT, rowCount);
+    return outcomes;
+  }
+
+  /**
+   * Execute many independent queries, each as its own job.
+   *
+   * Up to `concurrency` queries run at once. Every query gets a settled
+   * outcome, in input order, so one failing query doesn't hide the results
+   * of the others. With `failFast`, the first failure aborts the batch:
+   * outstanding jobs are canceled with `cancelJob` and queries that haven't
+   * started are rejected with `AbortError`.
+   *
+   * @param queries - Queries to execute
+   * @param options - Batch options
+   * @returns One settled outcome per query, in input order
+   * @throws {AbortError} If the signal aborts
+   *
+   * @example
+   * ```typescript
+   * const outcomes = await client.executeBatch(
+   *   tables.map((table) => ({
+   *     branchId: '1261313',
+   *     workspaceId: '2950146661',
+   *     statements: [sql`SELECT COUNT(*) FROM ${sql.identifier(table)}`]
+   *   })),
+   *   { concurrency: 8 }
+   * );
+   *
+   * for (const outcome of outcomes) {
+   *   if (outcome.status === 'fulfilled') {
+   *     console.log(outcome.value[0].data);
+   *   } else {
+   *     console.error(outcome.reason.message);
+   *   }
+   * }
+   * ```
+   */
+  async executeBatch(
+    queries: BatchQuery[],
+    options?: ExecuteBatchOptions
+  ): Promise<BatchOutcome[]> {
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    const concurrency = Math.max(
+      1,
+      options?.concurrency ?? DEFAULT_BATCH_CONCURRENCY
+    );
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const outcomes: BatchOutcome[] = new Array(queries.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < queries.length) {
+        const index = next++;
+        if (controller.signal.aborted) {
+          outcomes[index] = {
+            status: "rejected",
+            reason: abortError(controller.signal),
+          };
+          continue;
+        }
+        try {
+          const value = await this.executeQuery({
+            ...queries[index],
+            signal: controller.signal,
+            cancelOnAbort: options?.failFast || queries[index].cancelOnAbort,
+          });
+          outcomes[index] = { status: "fulfilled", value };
+        } catch (error) {
+          outcomes[index] = { status: "rejected", reason: error as Error };
+          if (options?.failFast && !controller.signal.aborted) {
+            controller.abort(error);
+          }
+        }
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, queries.length) }, worker)
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+    return outcomes;
+  }
+
+  /**
+   * Fetch the result of a single statement for `executeQuery`, walking all
+   * pages when `fetchAll` or `maxRows` is set.
+   */
+  private async fetchStatementResult(
+    queryJobId: string,
+    statementId: string,
+    options: ExecuteQueryOptions
+  ): Promise<QueryResult> {
+    if (!options.fetchAll && options.maxRows === undefined) {
+      return this.getJobResults({
+        queryJobId,
+        statementId,
+        pageSize: options.pageSize,
+        decode: options.decode,
+        rowSchema: options.rowSchema,
+        signal: options.signal,
+      });
+    }
+
+    const limit = options.maxRows ?? Infinity;
+    const data: unknown[][] = [];
+    let first: QueryResult | undefined;
+    let truncated = false;
+
+    for await (const page of this.iterateResultPages({
+      queryJobId,
+      statementId,
+      pageSize: options.pageSize,
+      decode: options.decode,
+      signal: options.signal,
+    })) {
+      first ??= page;
+      if (page.data.length > 0 && data.length >= limit) {
+        truncated = true;
+        break;
+      }
+      const rows = page.data.slice(0, limit - data.length);
+      data.push(...rows);
+      if (rows.length < page.data.length) {
+        truncated = true;
+        break;
+      }
+    }
+
+    // iterateResultPages always yields at least the first page
+    const result: QueryResult = { ...first!, data, truncated };
+    return options.rowSchema
+      ? mapRows(result, options.rowSchema, statementId)
+      : result;
+  }
+
+  /**
+   * Iterate over all result pages of a statement.
+   *
+   * Pages are fetched with `getJobResults`, reading `prefetch` pages ahead
+   * of the consumer. The first page is always yielded, even when empty, so
+   * column metadata is available.
+   *
+   * @param options - Iteration options
+   * @yields One QueryResult per page
+   *
+   * @example
+   * ```typescript
+   * for await (const page of client.iterateResultPages({ queryJobId, statementId })) {
+   *   console.log(`Fetched ${page.data.length} rows`);
+   * }
+   * ```
+   */
+  async *iterateResultPages(
+    options: IterateResultsOptions
+  ): AsyncGenerator<QueryResult, void, unknown> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const prefetch = Math.max(0, options.prefetch ?? DEFAULT_PREFETCH);
+    const pending: Promise<QueryResult>[] = [];
+    let nextOffset = options.offset ?? 0;
+    let totalRows: number | undefined;
+
+    const fetchNext = () => {
+      const page = this.getJobResults({
+        queryJobId: options.queryJobId,
+        statementId: options.statementId,
+        offset: nextOffset,
+        pageSize,
+        decode: options.decode,
+        signal: options.signal,
+      });
+      // Prefetched pages may be abandoned when the consumer stops early
+      page.catch(() => undefined);
+      pending.push(page);
+      nextOffset += pageSize;
+    };
+
+    fetchNext();
+    let offset = options.offset ?? 0;
+    let isFirst = true;
+
+    while (pending.length > 0) {
+      const page = await pending.shift()!;
+      totalRows ??= page.numberOfRows;
+      offset += page.data.length;
+
+      const isLast =
+        page.data.length < pageSize ||
+        (totalRows !== undefined && offset >= totalRows);
+
+      const hasMore = (): boolean =>
+        !isLast && (totalRows === undefined || nextOffset < totalRows);
+
+      while (pending.length < prefetch && hasMore()) {
+        fetchNext();
+      }
+
+      if (isFirst || page.data.length > 0) {
+        yield page;
+      }
+      isFirst = false;
+
+      if (isLast) {
+        break;
+      }
+      if (pending.length === 0 && hasMore()) {
+        fetchNext();
+      }
+    }
+  }
+
+  /**
+   * Iterate over all result rows of a statement, page by page.
+   *
+   * @param options - Iteration options
+   * @yields Result rows
+   *
+   * @example
+   * ```typescript
+   * for await (const row of client.iterateResults({ queryJobId, statementId })) {
+   *   console.log(row);
+   * }
+   * ```
+   */
+  async *iterateResults(
+    options: IterateResultsOptions
+  ): AsyncGenerator<unknown[], void, unknown> {
+    for await (const page of this.iterateResultPages(options)) {
+      yield* page.data;
+    }
+  }
+
   /**
    * Stream results as an async generator.
    *
+   * When the connection fails, or no data arrives within `idleTimeout`, the
+   * stream continues with paginated `getJobResults` calls from the first
+   * row not yet yielded, so every row is yielded exactly once.
+   *
    * @param queryJobId - Query job ID
    * @param statementId - Statement ID
+   * @param options - Streaming options
    * @yields Parsed JSON objects from the NDJSON stream
+   * @throws {MalformedResultError} If a line of the stream is not valid JSON
+   * @throws {StreamTimeoutError} If the stream stalls and `resume` is false
    *
    * @example
    * ```typescript
@@ -408,63 +1737,411 @@ export class Client {
    */
   async *streamResults(
     queryJobId: string,
-    statementId: string
+    statementId: string,
+    options?: StreamResultsOptions
   ): AsyncGenerator<Record<string, unknown>, void, unknown> {
-    const url = `${this.baseUrl}/api/v1/queries/${queryJobId}/${statementId}/results/stream`;
+    const decodeOptions = resolveDecodeOptions(options?.decode);
+    const columns =
+      decodeOptions && !options?.columns
+        ? (
+            await this.getJobResults({
+              queryJobId,
+              statementId,
+              pageSize: 1,
+              signal: options?.signal,
+            })
+          ).columns
+        : options?.columns ?? [];
+    const decode = (record: Record<string, unknown>) =>
+      decodeOptions ? decodeRecord(record, columns, decodeOptions) : record;
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: this.buildHeaders(),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (response.status >= 400) {
-      const responseText = await response.text();
-      let errorData: ApiErrorResponse = {};
+    let lineNumber = 0;
+    const parse = (line: string): Record<string, unknown> => {
+      let record: Record<string, unknown>;
       try {
-        errorData = JSON.parse(responseText) as ApiErrorResponse;
-      } catch {
-        // Not JSON
+        record = JSON.parse(line) as Record<string, unknown>;
+      } catch (error) {
+        throw new MalformedResultError(
+          `Malformed result on line ${lineNumber}: ${(error as Error).message}`,
+          lineNumber,
+          line,
+          error
+        );
       }
-      this.handleError(response.status, errorData, responseText);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new QueryServiceError("No response body");
-    }
+      return decode(record);
+    };
 
+    const signal = options?.signal;
+    const stream = await this.openResultStream(queryJobId, statementId, {
+      signal,
+      idleTimeout: options?.idleTimeout,
+    });
     const decoder = new TextDecoder();
     let buffer = "";
+    let finished = false;
+    let interrupted = false;
+    let delivered = 0;
 
     try {
       while (true) {
-        const { done, value } = await reader.read();
+        let chunk: StreamChunk;
+        try {
+          chunk = await stream.read();
+        } catch (error) {
+          if (signal?.aborted || options?.resume === false) {
+            throw error;
+          }
+          // Rows of the incomplete last line are fetched again
+          this.log?.log(
+            "warn",
+            { queryJobId, statementId, offset: delivered, err: error },
+            "Results stream interrupted, resuming with paginated results"
+          );
+          interrupted = true;
+          break;
+        }
 
-        if (done) {
+        if (chunk.done) {
+          finished = true;
           if (buffer.trim()) {
-            yield JSON.parse(buffer) as Record<string, unknown>;
+            lineNumber++;
+            delivered++;
+            yield parse(buffer);
           }
           break;
         }
 
-        buffer += decoder.decode(value, { stream: true });
+        buffer += decoder.decode(chunk.value, { stream: true });
         const lines = buffer.split("\n");
         buffer = lines.pop() ?? "";
 
         for (const line of lines) {
+          lineNumber++;
           if (line.trim()) {
-            yield JSON.parse(line) as Record<string, unknown>;
+            delivered++;
+            yield parse(line);
           }
         }
       }
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof AbortError)) {
+        throw abortError(signal);
+      }
+      throw error;
     } finally {
-      reader.releaseLock();
+      // Drops the connection when the consumer stopped early or reading failed
+      stream.close(finished);
+    }
+
+    if (!interrupted) {
+      return;
+    }
+    for await (const page of this.iterateResultPages({
+      queryJobId,
+      statementId,
+      offset: delivered,
+      signal,
+    })) {
+      const names = page.columns.map((column) => column.name);
+      for (const row of page.data) {
+        const record: Record<string, unknown> = {};
+        names.forEach((name, index) => {
+          record[name] = row[index];
+        });
+        yield decode(record);
+      }
+    }
+  }
+
+  /**
+   * Stream results as a Web `ReadableStream`, e.g. to return from a route
+   * handler.
+   *
+   * With the default "ndjson" format the stream carries the raw NDJSON
+   * bytes of the response, without parsing them. With "rows" it carries
+   * the parsed (and optionally decoded) row objects, as `streamResults`
+   * yields them, including resuming after a failure. Canceling the stream
+   * aborts the underlying request.
+   *
+   * HTTP errors reject the returned promise, so they can still be turned
+   * into an error response before streaming starts.
+   *
+   * @param queryJobId - Query job ID
+   * @param statementId - Statement ID
+   * @param options - Streaming options
+   * @returns Readable stream of NDJSON bytes or row objects
+   *
+   * @example
+   * ```typescript
+   * export async function GET(request: Request) {
+   *   const body = await client.openResultsStream(jobId, statementId, {
+   *     signal: request.signal
+   *   });
+   *   return new Response(body, {
+   *     headers: { 'Content-Type': 'application/x-ndjson' }
+   *   });
+   * }
+   * ```
+   */
+  async openResultsStream(
+    queryJobId: string,
+    statementId: string,
+    options: ResultsStreamOptions & { format: "rows" }
+  ): Promise<ReadableStream<Record<string, unknown>>>;
+  async openResultsStream(
+    queryJobId: string,
+    statementId: string,
+    options?: ResultsStreamOptions & { format?: "ndjson" }
+  ): Promise<ReadableStream<Uint8Array>>;
+  async openResultsStream(
+    queryJobId: string,
+    statementId: string,
+    options?: ResultsStreamOptions
+  ): Promise<
+    ReadableStream<Uint8Array> | ReadableStream<Record<string, unknown>>
+  > {
+    if (options?.format === "rows") {
+      return this.rowStream(queryJobId, statementId, options);
+    }
+
+    const signal = options?.signal;
+    const stream = await this.openResultStream(queryJobId, statementId, {
+      signal,
+      idleTimeout: options?.idleTimeout,
+    });
+    let closed = false;
+    const close = (finished: boolean) => {
+      if (!closed) {
+        closed = true;
+        stream.close(finished);
+      }
+    };
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await stream.read();
+          if (closed) {
+            return;
+          }
+          if (done) {
+            close(true);
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          if (closed) {
+            return;
+          }
+          close(false);
+          controller.error(
+            signal?.aborted && !(error instanceof AbortError)
+              ? abortError(signal)
+              : error
+          );
+        }
+      },
+      cancel: () => close(false),
+    });
+  }
+
+  /** Row objects of `streamResults` as a `ReadableStream` */
+  private async rowStream(
+    queryJobId: string,
+    statementId: string,
+    options: StreamResultsOptions
+  ): Promise<ReadableStream<Record<string, unknown>>> {
+    // Aborted on cancel, so a pending read doesn't wait for the next row
+    const abort = new AbortController();
+    const onAbort = () => abort.abort(options.signal!.reason);
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () =>
+      options.signal?.removeEventListener("abort", onAbort);
+
+    const rows = this.streamResults(queryJobId, statementId, {
+      ...options,
+      signal: abort.signal,
+    });
+    let canceled = false;
+
+    // Read ahead one row, so that request errors reject here
+    let first: IteratorResult<Record<string, unknown>, void>;
+    try {
+      first = await rows.next();
+    } catch (error) {
+      cleanup();
+      throw error;
+    }
+
+    return new ReadableStream<Record<string, unknown>>({
+      start: (controller) => {
+        if (first.done) {
+          cleanup();
+          controller.close();
+        } else {
+          controller.enqueue(first.value);
+        }
+      },
+      pull: async (controller) => {
+        try {
+          const next = await rows.next();
+          if (canceled) {
+            return;
+          }
+          if (next.done) {
+            cleanup();
+            controller.close();
+          } else {
+            controller.enqueue(next.value);
+          }
+        } catch (error) {
+          cleanup();
+          if (!canceled) {
+            controller.error(error);
+          }
+        }
+      },
+      cancel: async () => {
+        canceled = true;
+        abort.abort();
+        cleanup();
+        await rows.return(undefined).catch(() => undefined);
+      },
+    });
+  }
+
+  /**
+   * Open the NDJSON results stream of a statement.
+   *
+   * The stream holds a request slot. `close` releases it, and drops the
+   * connection unless the body was read to the end. `read` rejects with
+   * `StreamTimeoutError` when no data arrives within the idle timeout.
+   */
+  private async openResultStream(
+    queryJobId: string,
+    statementId: string,
+    options: { signal?: AbortSignal; idleTimeout?: number }
+  ): Promise<{
+    read: () => Promise<StreamChunk>;
+    close: (finished: boolean) => void;
+  }> {
+    const signal = options.signal;
+    const idleTimeout = options.idleTimeout ?? this.timeout;
+    const url = `${this.baseUrl}/api/v1/queries/${queryJobId}/${statementId}/results/stream`;
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    // The stream holds a request slot until it is consumed or abandoned
+    const release =
+      this.requestLimiter.tryAcquire() ??
+      (await this.requestLimiter.acquire({ signal }));
+    if (signal?.aborted) {
+      release();
+      throw abortError(signal);
+    }
+
+    // The timeout only covers the response headers, the signal the whole stream
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => {
+      signal?.removeEventListener("abort", onAbort);
+      release();
+    };
+
+    try {
+      const headers = this.buildHeaders();
+      const startedAt = Date.now();
+      this.emit("onRequest", {
+        method: "GET",
+        url,
+        headers: Object.freeze(redactHeaders(headers)),
+        attempt: 0,
+      });
+
+      let response: Response;
+      try {
+        response = await this.send({
+          method: "GET",
+          url,
+          headers,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        this.emit("onResponse", {
+          method: "GET",
+          url,
+          attempt: 0,
+          duration: Date.now() - startedAt,
+          error: error as Error,
+        });
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+      this.emit("onResponse", {
+        method: "GET",
+        url,
+        attempt: 0,
+        status: response.status,
+        duration: Date.now() - startedAt,
+      });
+
+      if (response.status >= 400) {
+        throw await this.errorFromResponse(response);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new QueryServiceError("No response body");
+      }
+
+      // Each read must deliver data within the idle timeout
+      const read = () =>
+        new Promise<StreamChunk>((resolve, reject) => {
+          const idleId = setTimeout(() => {
+            reject(
+              new StreamTimeoutError(
+                `No data received for ${idleTimeout}ms`,
+                idleTimeout
+              )
+            );
+            controller.abort();
+          }, idleTimeout);
+          reader.read().then(
+            (result) => {
+              clearTimeout(idleId);
+              resolve(result);
+            },
+            (error) => {
+              clearTimeout(idleId);
+              reject(error);
+            }
+          );
+        });
+
+      return {
+        read,
+        close: (finished) => {
+          if (!finished) {
+            controller.abort();
+          }
+          reader.releaseLock();
+          cleanup();
+        },
+      };
+    } catch (error) {
+      cleanup();
+      if (signal?.aborted && !(error instanceof AbortError)) {
+        throw abortError(signal);
+      }
+      throw error;
     }
   }
 }
@@ -0,0 +1,361 @@
+/**
+ * Type-aware decoding of query result values.
+ *
+ * The Query Service returns cell values as plain JSON, so numbers, dates and
+ * semi-structured values usually arrive as strings. These helpers convert
+ * them to native JavaScript values based on the column type reported in
+ * `QueryResult.columns`. Both Snowflake and BigQuery type names are supported.
+ */
+
+import type { Column, DecodeOptions, QueryResult, ValueCodec } from "./types";
+
+const INTEGER_TYPES = new Set([
+  "INT",
+  "INTEGER",
+  "BIGINT",
+  "SMALLINT",
+  "TINYINT",
+  "BYTEINT",
+  "INT64",
+]);
+
+const DECIMAL_TYPES = new Set([
+  "NUMBER",
+  "NUMERIC",
+  "DECIMAL",
+  "FIXED",
+  "BIGNUMERIC",
+  "BIGDECIMAL",
+]);
+
+const FLOAT_TYPES = new Set([
+  "FLOAT",
+  "FLOAT4",
+  "FLOAT8",
+  "FLOAT64",
+  "DOUBLE",
+  "DOUBLE PRECISION",
+  "REAL",
+]);
+
+const BOOLEAN_TYPES = new Set(["BOOLEAN", "BOOL"]);
+
+const TIMESTAMP_TYPES = new Set([
+  "TIMESTAMP",
+  "TIMESTAMP_NTZ",
+  "TIMESTAMP_LTZ",
+  "TIMESTAMP_TZ",
+  "DATETIME",
+]);
+
+/** Timestamp types without time zone information, interpreted as UTC */
+const ZONELESS_TYPES = new Set(["TIMESTAMP_NTZ", "DATETIME"]);
+
+const JSON_TYPES = new Set([
+  "VARIANT",
+  "OBJECT",
+  "ARRAY",
+  "JSON",
+  "STRUCT",
+  "RECORD",
+  "MAP",
+]);
+
+const MS_PER_DAY = 86400000;
+
+/**
+ * Normalize a column type to its base name.
+ *
+ * Strips parameters and element types, e.g. "NUMBER(38,0)" -> "NUMBER",
+ * "ARRAY<INT64>" -> "ARRAY", "timestamp_ntz(9)" -> "TIMESTAMP_NTZ".
+ */
+export function normalizeType(type: string): string {
+  return type
+    .toUpperCase()
+    .replace(/[(<].*$/, "")
+    .trim();
+}
+
+/** Extract the scale from a type like "NUMBER(38,2)", if present */
+function typeScale(type: string): number | undefined {
+  const match = /\(\s*\d+\s*,\s*(\d+)\s*\)/.exec(type);
+  return match ? Number(match[1]) : undefined;
+}
+
+function decodeNumeric(
+  value: unknown,
+  column: Column,
+  options: DecodeOptions
+): unknown {
+  const text = typeof value === "string" ? value.trim() : value;
+  const isInteger =
+    typeof text === "string"
+      ? /^[+-]?\d+$/.test(text)
+      : typeof text === "number" && Number.isInteger(text);
+
+  if (!isInteger || (typeScale(column.type) ?? 0) > 0) {
+    if (options.decimals === "string") {
+      return String(text);
+    }
+    return decodeFloat(text);
+  }
+
+  const policy = options.integers ?? "auto";
+  if (typeof text === "number") {
+    return policy === "bigint" ? BigInt(text) : text;
+  }
+  if (typeof text !== "string") {
+    return value;
+  }
+  if (policy === "number") {
+    return Number(text);
+  }
+  const big = BigInt(text);
+  if (policy === "bigint") {
+    return big;
+  }
+  return big >= BigInt(Number.MIN_SAFE_INTEGER) &&
+    big <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(big)
+    : big;
+}
+
+function decodeFloat(value: unknown): unknown {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value !== "string") {
+    return value;
+  }
+  switch (value.trim().toLowerCase()) {
+    case "inf":
+    case "infinity":
+    case "+inf":
+    case "+infinity":
+      return Infinity;
+    case "-inf":
+    case "-infinity":
+      return -Infinity;
+    case "nan":
+      return NaN;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? value : parsed;
+}
+
+function decodeBoolean(value: unknown): unknown {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return value !== 0;
+  }
+  if (typeof value === "string") {
+    const lower = value.trim().toLowerCase();
+    if (lower === "true" || lower === "1") return true;
+    if (lower === "false" || lower === "0") return false;
+  }
+  return value;
+}
+
+function parseTemporal(value: unknown, baseType: string): Date | undefined {
+  const numeric =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && /^[+-]?\d+(\.\d+)?$/.test(value.trim())
+        ? Number(value)
+        : undefined;
+
+  if (numeric !== undefined) {
+    // Epoch-based encodings: days for DATE, seconds for timestamps
+    return new Date(
+      baseType === "DATE" ? numeric * MS_PER_DAY : Math.round(numeric * 1000)
+    );
+  }
+
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  let text = value.trim();
+  if (baseType === "DATE") {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+    return match
+      ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]))
+      : undefined;
+  }
+
+  text = text
+    .replace(/^(\d{4}-\d{2}-\d{2})[ T]/, "$1T")
+    .replace(/\s*UTC$/i, "Z")
+    .replace(/(\.\d{3})\d+/, "$1")
+    .replace(/\s*([+-]\d{2}):?(\d{2})$/, "$1:$2");
+
+  const hasZone = /(Z|[+-]\d{2}:\d{2})$/.test(text);
+  if (!hasZone || ZONELESS_TYPES.has(baseType)) {
+    text = text.replace(/(Z|[+-]\d{2}:\d{2})$/, "") + "Z";
+  }
+
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function decodeTemporal(
+  value: unknown,
+  baseType: string,
+  options: DecodeOptions
+): unknown {
+  const date = parseTemporal(value, baseType);
+  if (!date) {
+    return value;
+  }
+  if (options.dates === "string") {
+    const iso = date.toISOString();
+    return baseType === "DATE" ? iso.slice(0, 10) : iso;
+  }
+  return date;
+}
+
+function decodeJson(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function decodeBytes(value: unknown, baseType: string): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  if (baseType === "BYTES") {
+    // BigQuery encodes BYTES as base64
+    let binary: string;
+    try {
+      binary = atob(value);
+    } catch {
+      return value;
+    }
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+  // Snowflake encodes BINARY as hex
+  if (!/^([0-9a-f]{2})*$/i.test(value)) {
+    return value;
+  }
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function findCodec(
+  baseType: string,
+  codecs: Record<string, ValueCodec> | undefined
+): ValueCodec | undefined {
+  if (!codecs) {
+    return undefined;
+  }
+  for (const [type, codec] of Object.entries(codecs)) {
+    if (normalizeType(type) === baseType) {
+      return codec;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode a single cell value according to its column type.
+ *
+ * Values of unknown types, and values that cannot be parsed, are returned
+ * unchanged. `null` and `undefined` always decode to `null`.
+ */
+export function decodeValue(
+  value: unknown,
+  column: Column,
+  options: DecodeOptions = {}
+): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const baseType = normalizeType(column.type);
+  const codec = findCodec(baseType, options.codecs);
+  if (codec) {
+    return codec(value, column);
+  }
+
+  if (INTEGER_TYPES.has(baseType) || DECIMAL_TYPES.has(baseType)) {
+    return decodeNumeric(value, column, options);
+  }
+  if (FLOAT_TYPES.has(baseType)) {
+    return decodeFloat(value);
+  }
+  if (BOOLEAN_TYPES.has(baseType)) {
+    return decodeBoolean(value);
+  }
+  if (baseType === "DATE" || TIMESTAMP_TYPES.has(baseType)) {
+    return decodeTemporal(value, baseType, options);
+  }
+  if (JSON_TYPES.has(baseType)) {
+    return decodeJson(value);
+  }
+  if (baseType === "BYTES" || baseType === "BINARY" || baseType === "VARBINARY") {
+    return decodeBytes(value, baseType);
+  }
+  return value;
+}
+
+/** Decode a positional row using the given column metadata */
+export function decodeRow(
+  row: unknown[],
+  columns: Column[],
+  options: DecodeOptions = {}
+): unknown[] {
+  return row.map((value, index) =>
+    columns[index] ? decodeValue(value, columns[index], options) : value
+  );
+}
+
+/** Decode a row object keyed by column name (as yielded by `streamResults`) */
+export function decodeRecord(
+  record: Record<string, unknown>,
+  columns: Column[],
+  options: DecodeOptions = {}
+): Record<string, unknown> {
+  const byName = new Map(columns.map((column) => [column.name, column]));
+  const decoded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const column = byName.get(key);
+    decoded[key] = column ? decodeValue(value, column, options) : value;
+  }
+  return decoded;
+}
+
+/** Return a copy of the result with all rows decoded */
+export function decodeResult(
+  result: QueryResult,
+  options: DecodeOptions = {}
+): QueryResult {
+  return {
+    ...result,
+    data: result.data.map((row) => decodeRow(row, result.columns, options)),
+  };
+}
+
+/** Resolve the `decode` option of a request, `undefined` when disabled */
+export function resolveDecodeOptions(
+  decode: boolean | DecodeOptions | undefined
+): DecodeOptions | undefined {
+  if (!decode) {
+    return undefined;
+  }
+  return decode === true ? {} : decode;
+}
@@ -2,11 +2,18 @@
  * Custom error classes for Keboola Query Service SDK.
  */
 
+import type { FailedStatement, QueueName, RetryAttempt } from "./types";
+
 /** Base error for Query Service errors */
 export class QueryServiceError extends Error {
   public readonly statusCode?: number;
   public readonly exceptionId?: string;
   public readonly context?: Record<string, unknown>;
+  /**
+   * `false` when repeating the request can't succeed, so it is neither
+   * retried nor treated as an ambiguous job submission
+   */
+  public readonly retryable?: boolean;
 
   constructor(
     message: string,
@@ -14,6 +21,7 @@ export class QueryServiceError extends Error {
       statusCode?: number;
       exceptionId?: string;
       context?: Record<string, unknown>;
+      retryable?: boolean;
     }
   ) {
     super(message);
@@ -21,6 +29,7 @@ export class QueryServiceError extends Error {
     this.statusCode = options?.statusCode;
     this.exceptionId = options?.exceptionId;
     this.context = options?.context;
+    this.retryable = options?.retryable;
   }
 }
 
@@ -72,12 +81,12 @@ export class NotFoundError extends QueryServiceError {
 /** Raised when a query job fails */
 export class JobError extends QueryServiceError {
   public readonly jobId: string;
-  public readonly failedStatements: Array<{ id: string; error?: string }>;
+  public readonly failedStatements: FailedStatement[];
 
   constructor(
     message: string,
     jobId: string,
-    failedStatements: Array<{ id: string; error?: string }> = [],
+    failedStatements: FailedStatement[] = [],
     options?: {
       statusCode?: number;
       exceptionId?: string;
@@ -109,3 +118,138 @@ export class JobTimeoutError extends QueryServiceError {
     this.jobId = jobId;
   }
 }
+
+/** Raised when a request still fails after all allowed retries */
+export class RetryExhaustedError extends QueryServiceError {
+  public readonly attempts: RetryAttempt[];
+
+  constructor(
+    message: string,
+    attempts: RetryAttempt[],
+    options?: {
+      statusCode?: number;
+      exceptionId?: string;
+      context?: Record<string, unknown>;
+    }
+  ) {
+    super(message, options);
+    this.name = "RetryExhaustedError";
+    this.attempts = attempts;
+  }
+}
+
+/** Raised when a result row does not match the requested row schema */
+export class RowValidationError extends QueryServiceError {
+  public readonly statementId: string;
+  public readonly rowIndex: number;
+  public readonly column?: string;
+  public readonly cause: unknown;
+
+  constructor(
+    message: string,
+    statementId: string,
+    rowIndex: number,
+    column: string | undefined,
+    cause: unknown
+  ) {
+    super(message);
+    this.name = "RowValidationError";
+    this.statementId = statementId;
+    this.rowIndex = rowIndex;
+    this.column = column;
+    this.cause = cause;
+  }
+}
+
+/** Raised when an operation is aborted through an `AbortSignal` */
+export class AbortError extends QueryServiceError {
+  public readonly reason?: unknown;
+
+  constructor(message: string, reason?: unknown) {
+    super(message);
+    this.name = "AbortError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when an operation is rejected by a client-wide concurrency queue,
+ * because the queue is full or the operation waited too long.
+ */
+export class QueueLimitError extends QueryServiceError {
+  public readonly queue: QueueName;
+  public readonly reason: "length" | "waitTime";
+
+  constructor(
+    message: string,
+    queue: QueueName,
+    reason: "length" | "waitTime"
+  ) {
+    super(message);
+    this.name = "QueueLimitError";
+    this.queue = queue;
+    this.reason = reason;
+  }
+}
+
+/** Raised when a results stream receives no data within its idle timeout */
+export class StreamTimeoutError extends QueryServiceError {
+  public readonly idleTimeout: number;
+
+  constructor(message: string, idleTimeout: number) {
+    super(message);
+    this.name = "StreamTimeoutError";
+    this.idleTimeout = idleTimeout;
+  }
+}
+
+/** Raised when a line of a results stream is not valid JSON */
+export class MalformedResultError extends QueryServiceError {
+  /** Line number in the stream, starting at 1 */
+  public readonly lineNumber: number;
+  /** Content of the line */
+  public readonly line: string;
+  public readonly cause: unknown;
+
+  constructor(
+    message: string,
+    lineNumber: number,
+    line: string,
+    cause: unknown
+  ) {
+    super(message);
+    this.name = "MalformedResultError";
+    this.lineNumber = lineNumber;
+    this.line = line;
+    this.cause = cause;
+  }
+}
+
+/** Raised by `TrafficReplayer` when no recorded request matches a request */
+export class UnmatchedRequestError extends QueryServiceError {
+  public readonly method: string;
+  /** Path and query string of the request */
+  public readonly url: string;
+  public readonly body?: unknown;
+
+  constructor(message: string, method: string, url: string, body?: unknown) {
+    // The request won't appear in the recording on a retry either
+    super(message, { retryable: false });
+    this.name = "UnmatchedRequestError";
+    this.method = method;
+    this.url = url;
+    this.body = body;
+  }
+}
+
+/** Raised by `splitStatements` when a SQL script cannot be split */
+export class ScriptSyntaxError extends QueryServiceError {
+  /** Line of the script where the problem starts, starting at 1 */
+  public readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(message);
+    this.name = "ScriptSyntaxError";
+    this.line = line;
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Export of query results as CSV, TSV or NDJSON.
+ *
+ * Output is written to a Node.js `Writable` or a Web `WritableStream`,
+ * waiting for the destination to drain whenever it signals backpressure.
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs';
+ * import { exportResults } from '@keboola/query-service';
+ *
+ * await exportResults(
+ *   client.iterateResultPages({ queryJobId, statementId }),
+ *   createWriteStream('orders.csv'),
+ *   { format: 'csv' }
+ * );
+ * ```
+ */
+
+import { AbortError, QueryServiceError } from "./errors";
+import type {
+  ExportDestination,
+  ExportOptions,
+  NodeWritableLike,
+  QueryResult,
+} from "./types";
+
+/** Output is buffered up to this many characters before it is written */
+const FLUSH_SIZE = 64 * 1024;
+
+interface Sink {
+  write(text: string): Promise<void>;
+  close(): Promise<void>;
+  fail(error: unknown): Promise<void>;
+}
+
+function isWebStream(
+  destination: ExportDestination
+): destination is WritableStream<Uint8Array> {
+  return typeof (destination as WritableStream).getWriter === "function";
+}
+
+function waitForDrain(stream: NodeWritableLike): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      stream.removeListener("drain", onDrain);
+      stream.removeListener("error", onError);
+      stream.removeListener("close", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: unknown) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new QueryServiceError("Destination closed during export"));
+    };
+    stream.once("drain", onDrain);
+    stream.once("error", onError);
+    stream.once("close", onClose);
+  });
+}
+
+function waitForFinish(stream: NodeWritableLike): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      stream.removeListener("finish", onFinish);
+      stream.removeListener("error", onError);
+      stream.removeListener("close", onClose);
+    };
+    const onFinish = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: unknown) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new QueryServiceError("Destination closed during export"));
+    };
+    stream.once("finish", onFinish);
+    stream.once("error", onError);
+    stream.once("close", onClose);
+    stream.end();
+  });
+}
+
+function nodeSink(stream: NodeWritableLike, end: boolean): Sink {
+  // Errors can come between writes, e.g. when a file fails to open, and
+  // fail the next write or close instead of going unhandled
+  let failure: { error: unknown } | undefined;
+  const onError = (error: unknown) => {
+    failure = { error };
+  };
+  stream.once("error", onError);
+  const check = () => {
+    if (failure) {
+      throw failure.error;
+    }
+  };
+
+  return {
+    write: async (text) => {
+      check();
+      if (!stream.write(text)) {
+        await waitForDrain(stream);
+      }
+    },
+    close: async () => {
+      check();
+      if (end) {
+        await waitForFinish(stream);
+      }
+      stream.removeListener("error", onError);
+    },
+    // The stream is left to the caller, who may want to destroy it
+    fail: async () => {
+      stream.removeListener("error", onError);
+    },
+  };
+}
+
+function webSink(stream: WritableStream<Uint8Array>, end: boolean): Sink {
+  const writer = stream.getWriter();
+  const encoder = new TextEncoder();
+  return {
+    write: async (text) => {
+      await writer.ready;
+      // Errors surface through `ready` and `close`
+      writer.write(encoder.encode(text)).catch(() => undefined);
+    },
+    close: async () => {
+      if (end) {
+        await writer.close();
+      } else {
+        await writer.ready;
+      }
+      writer.releaseLock();
+    },
+    fail: async (error) => {
+      if (end) {
+        await writer.abort(error).catch(() => undefined);
+      } else {
+        writer.releaseLock();
+      }
+    },
+  };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/** JSON replacer for decoded values JSON can't represent */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return toBase64(value);
+  }
+  return value;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return toBase64(value);
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value, jsonReplacer);
+  }
+  return String(value);
+}
+
+/** Formats rows as lines of the requested format */
+interface Formatter {
+  header(columns: string[]): string;
+  row(values: unknown[], columns: string[]): string;
+}
+
+function delimitedFormatter(options: ExportOptions): Formatter {
+  const delimiter =
+    options.delimiter ?? (options.format === "tsv" ? "\t" : ",");
+  const nullValue = options.nullValue ?? "";
+  const lineEnding = options.lineEnding ?? "\r\n";
+
+  const quote = (text: string): string => {
+    // Empty strings are quoted when they would read back as null
+    const needsQuotes =
+      text.includes(delimiter) ||
+      /["\r\n]/.test(text) ||
+      (text === "" && nullValue === "");
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const field = (value: unknown): string =>
+    value === null || value === undefined ? nullValue : quote(stringify(value));
+
+  return {
+    header: (columns) => columns.map(quote).join(delimiter) + lineEnding,
+    row: (values) => values.map(field).join(delimiter) + lineEnding,
+  };
+}
+
+const ndjsonFormatter: Formatter = {
+  header: () => "",
+  row: (values, columns) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      record[column] = values[index] ?? null;
+    });
+    return JSON.stringify(record, jsonReplacer) + "\n";
+  },
+};
+
+/** Receives the columns once, then every row */
+interface RowWriter {
+  columns(columns: string[]): Promise<void>;
+  row(values: unknown[]): Promise<void>;
+}
+
+async function runExport(
+  destination: ExportDestination,
+  options: ExportOptions,
+  produce: (writer: RowWriter) => Promise<void>
+): Promise<number> {
+  const end = options.end ?? true;
+  const sink = isWebStream(destination)
+    ? webSink(destination, end)
+    : nodeSink(destination, end);
+  const formatter =
+    options.format === "ndjson" ? ndjsonFormatter : delimitedFormatter(options);
+  const signal = options.signal;
+
+  let columns: string[] = [];
+  let buffer = "";
+  let rows = 0;
+
+  const append = async (text: string) => {
+    buffer += text;
+    if (buffer.length >= FLUSH_SIZE) {
+      const chunk = buffer;
+      buffer = "";
+      await sink.write(chunk);
+    }
+  };
+
+  try {
+    await produce({
+      columns: async (names) => {
+        columns = options.columns ?? names;
+        if (options.header ?? true) {
+          await append(formatter.header(columns));
+        }
+      },
+      row: async (values) => {
+        if (signal?.aborted) {
+          throw new AbortError("Operation was aborted", signal.reason);
+        }
+        await append(formatter.row(values, columns));
+        rows++;
+      },
+    });
+    if (buffer) {
+      await sink.write(buffer);
+    }
+    await sink.close();
+  } catch (error) {
+    await sink.fail(error);
+    throw error;
+  }
+  return rows;
+}
+
+/**
+ * Export a query result, or the pages of a paginated result, as CSV, TSV
+ * or NDJSON.
+ *
+ * Column names come from `QueryResult.columns` of the first page. Decoded
+ * values are written as text: dates as ISO 8601, binary as base64 and
+ * semi-structured values as JSON.
+ *
+ * @param source - A query result, or pages from `iterateResultPages`
+ * @param destination - Node.js `Writable` or Web `WritableStream`
+ * @param options - Format options
+ * @returns Number of rows written
+ * @throws {AbortError} If the signal aborts
+ */
+export async function exportResults(
+  source: QueryResult | AsyncIterable<QueryResult> | Iterable<QueryResult>,
+  destination: ExportDestination,
+  options: ExportOptions
+): Promise<number> {
+  const pages =
+    Symbol.asyncIterator in source || Symbol.iterator in source
+      ? (source as AsyncIterable<QueryResult>)
+      : [source as QueryResult];
+
+  return runExport(destination, options, async (writer) => {
+    let first = true;
+    for await (const page of pages) {
+      const names = page.columns.map((column) => column.name);
+      if (first) {
+        await writer.columns(names);
+        first = false;
+      }
+      const order = options.columns?.map((name) => names.indexOf(name));
+      for (const row of page.data) {
+        await writer.row(order ? order.map((index) => row[index]) : row);
+      }
+    }
+  });
+}
+
+/**
+ * Export row objects, e.g. from `streamResults`, as CSV, TSV or NDJSON.
+ *
+ * Columns are taken from `options.columns`, or from the keys of the first
+ * row.
+ *
+ * @param records - Row objects keyed by column name
+ * @param destination - Node.js `Writable` or Web `WritableStream`
+ * @param options - Format options
+ * @returns Number of rows written
+ * @throws {AbortError} If the signal aborts
+ *
+ * @example
+ * ```typescript
+ * await exportRecords(
+ *   client.streamResults(queryJobId, statementId),
+ *   response, // Node.js ServerResponse
+ *   { format: 'ndjson' }
+ * );
+ * ```
+ */
+export async function exportRecords(
+  records:
+    AsyncIterable<Record<string, unknown>> | Iterable<Record<string, unknown>>,
+  destination: ExportDestination,
+  options: ExportOptions
+): Promise<number> {
+  return runExport(destination, options, async (writer) => {
+    let columns = options.columns;
+    if (columns) {
+      await writer.columns(columns);
+    }
+    for await (const record of records) {
+      if (!columns) {
+        columns = Object.keys(record);
+        await writer.columns(columns);
+      }
+      await writer.row(columns.map((column) => record[column]));
+    }
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Client-side filtering of query history.
+ *
+ * The history is returned newest first, so a lower bound on `createdAt`
+ * tells when the rest of the history can be skipped.
+ */
+
+import type {
+  DateRange,
+  HistoryFilter,
+  StatementWithWorkspaceInfo,
+} from "./types";
+
+function toTime(value: Date | string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = value instanceof Date ? value.getTime() : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new TypeError(`Invalid date in history filter: ${String(value)}`);
+  }
+  return time;
+}
+
+function inRange(value: string | undefined, range: DateRange): boolean {
+  const time = value ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  const from = toTime(range.from);
+  const to = toTime(range.to);
+  return (
+    (from === undefined || time >= from) && (to === undefined || time < to)
+  );
+}
+
+function oneOf<T>(value: T | undefined, expected: T | T[]): boolean {
+  return value !== undefined && [expected].flat().includes(value as never);
+}
+
+/** Whether a history statement matches every criterion of the filter */
+export function matchesHistoryFilter(
+  statement: StatementWithWorkspaceInfo,
+  filter: HistoryFilter
+): boolean {
+  if (filter.status !== undefined && !oneOf(statement.status, filter.status)) {
+    return false;
+  }
+  if (filter.createdAt && !inRange(statement.createdAt, filter.createdAt)) {
+    return false;
+  }
+  if (
+    filter.completedAt &&
+    !inRange(statement.completedAt, filter.completedAt)
+  ) {
+    return false;
+  }
+  if (
+    filter.warehouse !== undefined &&
+    !oneOf(statement.warehouse, filter.warehouse)
+  ) {
+    return false;
+  }
+  if (
+    filter.backendSize !== undefined &&
+    !oneOf(statement.backendSize, filter.backendSize)
+  ) {
+    return false;
+  }
+  if (
+    filter.queryJobId !== undefined &&
+    !oneOf(statement.queryJobId, filter.queryJobId)
+  ) {
+    return false;
+  }
+  if (filter.query !== undefined) {
+    if (typeof filter.query === "string") {
+      return statement.query.includes(filter.query);
+    }
+    // Reset the state of global and sticky expressions between statements
+    filter.query.lastIndex = 0;
+    return filter.query.test(statement.query);
+  }
+  return true;
+}
+
+/**
+ * Whether the statement, and so everything after it in the history, was
+ * created before the lower bound of the filter.
+ */
+export function isPastHistoryFilter(
+  statement: StatementWithWorkspaceInfo,
+  filter: HistoryFilter
+): boolean {
+  const from = toTime(filter.createdAt?.from);
+  const createdAt = statement.createdAt ? Date.parse(statement.createdAt) : NaN;
+  return from !== undefined && createdAt < from;
+}
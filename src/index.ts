@@ -66,9 +66,14 @@
 
 // Client
 export { Client } from "./client";
+export { WorkspaceClient } from "./workspace";
+
+// SQL
+export { sql, SqlStatement, SqlIdentifier, SqlRaw, SqlList } from "./sql";
 
 // Types
 export type {
+  SqlDialect,
   ActorType,
   JobState,
   StatementState,
@@ -79,15 +84,97 @@ export type {
   StatementWithWorkspaceInfo,
   QueryHistory,
   ClientConfig,
+  RequestOptions,
+  FetchFunction,
+  TransportRequest,
+  NextHandler,
+  Middleware,
+  RetryPolicy,
+  RetryRequest,
+  RetryAttempt,
+  ClientHooks,
+  RequestEvent,
+  ResponseEvent,
+  RetryEvent,
+  PollEvent,
+  JobStateChangeEvent,
+  StatementCompleteEvent,
+  TelemetryTracer,
+  TelemetrySpan,
+  TelemetryAttributeValue,
+  Logger,
+  LogLevel,
+  SqlLogMode,
+  QueueName,
+  QueueStats,
+  LimiterStats,
+  SleepFunction,
   ExecuteQueryOptions,
+  StatementOutcome,
+  ExecuteScriptOptions,
+  ScriptStatement,
+  ScriptLocation,
+  SplitStatementsOptions,
+  FailedStatement,
+  IncrementalQueryOptions,
+  StatementResult,
+  BatchQuery,
+  ExecuteBatchOptions,
+  BatchOutcome,
+  WorkspaceOptions,
+  WorkspaceScope,
+  SubmittedJob,
   SubmitJobOptions,
+  SubmitJobReceipt,
   GetJobResultsOptions,
+  IterateResultsOptions,
   WaitForJobOptions,
+  WatchJobOptions,
+  JobWatchEvent,
+  JobTransition,
+  StatementTransition,
   GetQueryHistoryOptions,
+  IterateQueryHistoryOptions,
+  HistoryFilter,
+  DateRange,
+  StreamResultsOptions,
+  ResultsStreamOptions,
+  ExportFormat,
+  ExportOptions,
+  ExportDestination,
+  NodeWritableLike,
+  DecodeOptions,
+  ValueCodec,
+  RowSchema,
+  MappedQueryResult,
 } from "./types";
 
 export { isTerminalState } from "./types";
 
+// Decoding
+export {
+  decodeValue,
+  decodeRow,
+  decodeRecord,
+  decodeResult,
+  normalizeType,
+} from "./decode";
+
+// Scripts
+export { splitStatements } from "./script";
+
+// Export
+export { exportResults, exportRecords } from "./export";
+
+// Logging
+export { consoleLogger, redactHeaders, redactSecrets } from "./logging";
+
+// Telemetry
+export { SpanAttributes } from "./telemetry";
+
+// Row mapping
+export { mapRows, rowToObject } from "./rows";
+
 // Errors
 export {
   QueryServiceError,
@@ -96,4 +183,12 @@ export {
   NotFoundError,
   JobError,
   JobTimeoutError,
+  RowValidationError,
+  AbortError,
+  RetryExhaustedError,
+  QueueLimitError,
+  StreamTimeoutError,
+  MalformedResultError,
+  UnmatchedRequestError,
+  ScriptSyntaxError,
 } from "./errors";
@@ -0,0 +1,176 @@
+/**
+ * Client-wide concurrency limits.
+ *
+ * Operations beyond the limit wait in a queue ordered by priority, and in
+ * arrival order within the same priority.
+ */
+
+import { AbortError, QueueLimitError } from "./errors";
+import type { LimiterStats, QueueName } from "./types";
+
+/** Releases an acquired slot, repeated calls are ignored */
+export type Release = () => void;
+
+interface Waiter {
+  priority: number;
+  grant: (release: Release) => void;
+}
+
+export interface LimiterOptions {
+  /** Maximum number of slots (default: unlimited) */
+  limit?: number;
+  /** Maximum number of waiting operations (default: unlimited) */
+  maxQueueLength?: number;
+  /** Maximum time in milliseconds an operation waits (default: unlimited) */
+  maxQueueWaitTime?: number;
+}
+
+export class ConcurrencyLimiter {
+  private readonly queue: QueueName;
+  private readonly limit: number;
+  private readonly maxQueueLength: number;
+  private readonly maxQueueWaitTime: number;
+  private readonly waiters: Waiter[] = [];
+  private active = 0;
+
+  constructor(queue: QueueName, options: LimiterOptions = {}) {
+    this.queue = queue;
+    this.limit = Math.max(1, options.limit ?? Infinity);
+    this.maxQueueLength = options.maxQueueLength ?? Infinity;
+    this.maxQueueWaitTime = options.maxQueueWaitTime ?? Infinity;
+  }
+
+  /**
+   * Wait for a free slot.
+   *
+   * @param options - Queue priority (higher first, default: 0) and a signal
+   *   that removes the operation from the queue
+   * @returns Function that releases the slot
+   * @throws {QueueLimitError} If the queue is full or the wait times out
+   * @throws {AbortError} If the signal aborts while waiting
+   */
+  acquire(options?: {
+    priority?: number;
+    signal?: AbortSignal;
+  }): Promise<Release> {
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(
+        new AbortError("Operation was aborted", signal.reason)
+      );
+    }
+    const release = this.tryAcquire();
+    if (release) {
+      return Promise.resolve(release);
+    }
+    if (this.waiters.length >= this.maxQueueLength) {
+      return Promise.reject(
+        new QueueLimitError(
+          `The ${this.queue} queue is full (${this.maxQueueLength} waiting)`,
+          this.queue,
+          "length"
+        )
+      );
+    }
+
+    return new Promise<Release>((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      const leave = (error: Error) => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+        cleanup();
+        reject(error);
+      };
+      const onAbort = () =>
+        leave(new AbortError("Operation was aborted", signal!.reason));
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      const waiter: Waiter = {
+        priority: options?.priority ?? 0,
+        grant: (release) => {
+          cleanup();
+          resolve(release);
+        },
+      };
+
+      // Insert after all waiters of the same or higher priority
+      const index = this.waiters.findIndex(
+        (other) => other.priority < waiter.priority
+      );
+      this.waiters.splice(
+        index === -1 ? this.waiters.length : index,
+        0,
+        waiter
+      );
+
+      if (Number.isFinite(this.maxQueueWaitTime)) {
+        timeoutId = setTimeout(
+          () =>
+            leave(
+              new QueueLimitError(
+                `Waited more than ${this.maxQueueWaitTime}ms in the ${this.queue} queue`,
+                this.queue,
+                "waitTime"
+              )
+            ),
+          this.maxQueueWaitTime
+        );
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /** Take a free slot without waiting, `undefined` when none is free */
+  tryAcquire(): Release | undefined {
+    if (this.active >= this.limit) {
+      return undefined;
+    }
+    this.active++;
+    return this.createRelease();
+  }
+
+  /** Run a function while holding a slot */
+  async run<T>(
+    fn: () => Promise<T>,
+    options?: { priority?: number; signal?: AbortSignal }
+  ): Promise<T> {
+    const release = await this.acquire(options);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /** Current occupancy */
+  stats(): LimiterStats {
+    return {
+      active: this.active,
+      queued: this.waiters.length,
+      limit: this.limit,
+    };
+  }
+
+  private createRelease(): Release {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = this.waiters.shift();
+      if (next) {
+        // Hand the slot over directly so it can't be taken out of order
+        next.grant(this.createRelease());
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
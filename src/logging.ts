@@ -0,0 +1,270 @@
+/**
+ * Structured logging of client activity.
+ *
+ * The Storage API token is never logged: the token header is always
+ * redacted, and so are token-looking strings in error context.
+ */
+
+import { QueryServiceError } from "./errors";
+import type { ClientHooks, LogLevel, Logger, SqlLogMode } from "./types";
+
+const LEVELS: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  silent: Infinity,
+};
+
+const REDACTED = "[REDACTED]";
+const TOKEN_HEADER = "x-storageapi-token";
+const SQL_TRUNCATE_LENGTH = 200;
+
+/** Keboola Storage API tokens, e.g. "1234-56789-AbC..." */
+const TOKEN_PATTERN = /\b\d+-\d+-[A-Za-z0-9]{32,}\b/g;
+/** Keys whose values are secrets regardless of their content */
+const SECRET_KEY_PATTERN = /token|secret|password|authorization/i;
+
+/** Logger that writes to the console */
+export const consoleLogger: Logger = {
+  trace: (context, message) => console.debug(message, context),
+  debug: (context, message) => console.debug(message, context),
+  info: (context, message) => console.info(message, context),
+  warn: (context, message) => console.warn(message, context),
+  error: (context, message) => console.error(message, context),
+};
+
+/** Copy of the headers with the Storage API token redacted */
+export function redactHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = name.toLowerCase() === TOKEN_HEADER ? REDACTED : value;
+  }
+  return redacted;
+}
+
+/**
+ * Deep copy of a value with token-looking strings, and values of keys
+ * like "token" or "password", redacted.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(TOKEN_PATTERN, REDACTED);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] =
+        SECRET_KEY_PATTERN.test(key) && typeof item === "string"
+          ? REDACTED
+          : redactSecrets(item);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+/** FNV-1a hash, enough to correlate statements without revealing them */
+function hashSql(sql: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < sql.length; i++) {
+    hash ^= sql.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv1a:${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+/** Format a SQL statement for logging, `undefined` when SQL is not logged */
+export function formatSql(sql: string, mode: SqlLogMode): string | undefined {
+  switch (mode) {
+    case "full":
+      return sql;
+    case "truncated":
+      return sql.length > SQL_TRUNCATE_LENGTH
+        ? `${sql.slice(0, SQL_TRUNCATE_LENGTH)}... (${sql.length} chars)`
+        : sql;
+    case "hashed":
+      return hashSql(sql);
+    case "none":
+      return undefined;
+  }
+}
+
+function errorContext(error: Error): Record<string, unknown> {
+  const context: Record<string, unknown> = {
+    error: redactSecrets(error.message),
+    errorName: error.name,
+  };
+  if (error instanceof QueryServiceError) {
+    context.exceptionId = error.exceptionId;
+    context.context = redactSecrets(error.context);
+  }
+  return context;
+}
+
+/** Logs client activity with level filtering and redaction */
+export class ClientLogger {
+  private readonly logger: Logger;
+  private readonly minLevel: number;
+  private readonly sqlMode: SqlLogMode;
+
+  constructor(logger: Logger, level: LogLevel, sqlMode: SqlLogMode) {
+    this.logger = logger;
+    this.minLevel = LEVELS[level];
+    this.sqlMode = sqlMode;
+  }
+
+  log(
+    level: Exclude<LogLevel, "silent">,
+    context: Record<string, unknown>,
+    message: string
+  ): void {
+    if (LEVELS[level] < this.minLevel) {
+      return;
+    }
+    const write =
+      level === "trace"
+        ? (this.logger.trace ?? this.logger.debug)
+        : this.logger[level];
+    write.call(this.logger, context, message);
+  }
+
+  /** Log a submitted (or recovered) job */
+  jobSubmitted(event: {
+    queryJobId: string;
+    branchId: string;
+    workspaceId: string;
+    statements: string[];
+    recovered: boolean;
+  }): void {
+    const context: Record<string, unknown> = {
+      queryJobId: event.queryJobId,
+      branchId: event.branchId,
+      workspaceId: event.workspaceId,
+      statementCount: event.statements.length,
+      recovered: event.recovered,
+    };
+    if (this.sqlMode !== "none") {
+      context.statements = event.statements.map((sql) =>
+        formatSql(sql, this.sqlMode)
+      );
+    }
+    this.log(
+      "info",
+      context,
+      event.recovered ? "Job recovered" : "Job submitted"
+    );
+  }
+
+  /** Hooks that log HTTP traffic, retries and job progress */
+  hooks(): ClientHooks {
+    return {
+      onRequest: (event) =>
+        this.log(
+          "debug",
+          {
+            method: event.method,
+            url: event.url,
+            attempt: event.attempt,
+            headers: redactHeaders(event.headers),
+          },
+          "HTTP request"
+        ),
+      onResponse: (event) => {
+        const context = {
+          method: event.method,
+          url: event.url,
+          attempt: event.attempt,
+          status: event.status,
+          duration: event.duration,
+        };
+        if (event.error) {
+          this.log(
+            "warn",
+            { ...context, ...errorContext(event.error) },
+            "HTTP request failed"
+          );
+        } else {
+          this.log("debug", context, "HTTP response");
+        }
+      },
+      onRetry: (event) =>
+        this.log(
+          "warn",
+          {
+            method: event.method,
+            url: event.url,
+            attempt: event.attempt,
+            delay: event.delay,
+            status: event.status,
+            ...errorContext(event.error),
+          },
+          "Retrying request"
+        ),
+      onPoll: (event) =>
+        this.log(
+          "trace",
+          {
+            queryJobId: event.queryJobId,
+            iteration: event.iteration,
+            status: event.status,
+            elapsed: event.elapsed,
+          },
+          "Polled job status"
+        ),
+      onJobStateChange: (event) =>
+        this.log(
+          event.current === "failed" ? "error" : "info",
+          {
+            queryJobId: event.queryJobId,
+            previous: event.previous,
+            current: event.current,
+          },
+          "Job state changed"
+        ),
+      onStatementComplete: (event) =>
+        this.log(
+          event.statement.status === "failed" ? "warn" : "debug",
+          {
+            queryJobId: event.queryJobId,
+            statementId: event.statement.id,
+            status: event.statement.status,
+            rowsAffected: event.statement.rowsAffected,
+            numberOfRows: event.statement.numberOfRows,
+            error:
+              event.statement.error === undefined
+                ? undefined
+                : redactSecrets(event.statement.error),
+          },
+          "Statement finished"
+        ),
+    };
+  }
+}
+
+/** Create the client logger from configuration, `undefined` when silent */
+export function createClientLogger(config: {
+  logger?: Logger | "console" | "silent";
+  logLevel?: LogLevel;
+  logSql?: SqlLogMode;
+}): ClientLogger | undefined {
+  if (
+    !config.logger ||
+    config.logger === "silent" ||
+    config.logLevel === "silent"
+  ) {
+    return undefined;
+  }
+  const logger = config.logger === "console" ? consoleLogger : config.logger;
+  return new ClientLogger(
+    logger,
+    config.logLevel ?? "info",
+    config.logSql ?? "hashed"
+  );
+}
@@ -0,0 +1,372 @@
+/**
+ * Record and replay of Query Service traffic.
+ *
+ * `TrafficRecorder` is a middleware capturing the requests of a real
+ * session as a sanitized fixture: the token is removed, and SQL and result
+ * values can be redacted. `TrafficReplayer` serves the fixture back as a
+ * `fetch` function, so tests run offline and deterministically.
+ *
+ * @example
+ * ```typescript
+ * // Record once against the real service
+ * const recorder = new TrafficRecorder({ sql: 'hashed' });
+ * const client = new Client({ ...config, middleware: [recorder.middleware] });
+ * await client.executeQuery({ ... });
+ * await recorder.save('fixtures/orders.json');
+ *
+ * // Replay in CI
+ * const replayer = await TrafficReplayer.load('fixtures/orders.json');
+ * const client = new Client({
+ *   ...config,
+ *   fetch: replayer.fetch,
+ *   sleep: replayer.sleep
+ * });
+ * ```
+ */
+
+import { UnmatchedRequestError } from "./errors";
+import { formatSql } from "./logging";
+import type {
+  FetchFunction,
+  Middleware,
+  RecordedExchange,
+  RecordedRequest,
+  RecordedResponse,
+  SleepFunction,
+  SqlLogMode,
+  TrafficFixture,
+  TrafficRecorderOptions,
+} from "./types";
+
+/** Response headers kept in fixtures */
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+const REDACTED = "[REDACTED]";
+
+function redactSql(sql: unknown, mode: SqlLogMode): unknown {
+  return typeof sql === "string" ? (formatSql(sql, mode) ?? "") : sql;
+}
+
+/** Redact the statements of a submitted job */
+function redactRequestBody(body: unknown, mode: SqlLogMode): unknown {
+  if (mode === "full" || !body || typeof body !== "object") {
+    return body;
+  }
+  const request = body as { statements?: unknown };
+  if (!Array.isArray(request.statements)) {
+    return body;
+  }
+  return {
+    ...request,
+    statements: request.statements.map((sql) => redactSql(sql, mode)),
+  };
+}
+
+function parseBody(body: string | undefined): unknown {
+  if (!body) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/** JSON with sorted object keys, for comparing request bodies */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        )
+      : item
+  );
+}
+
+function toRecordedRequest(
+  url: string,
+  method: string,
+  body: unknown
+): RecordedRequest {
+  const parsed = new URL(url);
+  const request: RecordedRequest = {
+    method: method.toUpperCase(),
+    path: parsed.pathname,
+    query: Object.fromEntries(parsed.searchParams.entries()),
+  };
+  if (body !== undefined) {
+    request.body = body;
+  }
+  return request;
+}
+
+function describeRequest(request: RecordedRequest): string {
+  const query = new URLSearchParams(request.query).toString();
+  return `${request.method} ${request.path}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Records the traffic of a client as a fixture for `TrafficReplayer`.
+ *
+ * Add `recorder.middleware` to the client, run the session, then save the
+ * fixture with `save()` or get it with `toFixture()`.
+ */
+export class TrafficRecorder {
+  /** Middleware recording every request and response */
+  readonly middleware: Middleware;
+
+  private readonly sql: SqlLogMode;
+  private readonly redactValue?: (value: unknown, column: string) => unknown;
+  private readonly secrets: Set<string>;
+  private readonly exchanges: RecordedExchange[] = [];
+
+  constructor(options: TrafficRecorderOptions = {}) {
+    this.sql = options.sql ?? "full";
+    this.redactValue = options.redactValue;
+    this.secrets = new Set(options.secrets);
+
+    this.middleware = async (request, next) => {
+      const response = await next(request);
+      for (const [name, value] of Object.entries(request.headers)) {
+        if (name.toLowerCase() === "x-storageapi-token" && value) {
+          this.secrets.add(value);
+        }
+      }
+
+      // The body is consumed here, so the client gets a copy
+      const text = await response.text();
+      this.exchanges.push(
+        this.sanitize({
+          request: toRecordedRequest(
+            request.url,
+            request.method,
+            redactRequestBody(parseBody(request.body), this.sql)
+          ),
+          response: this.recordResponse(response, text),
+        })
+      );
+      return new Response(text || null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    };
+  }
+
+  /** Get the recorded traffic */
+  toFixture(): TrafficFixture {
+    return {
+      version: 1,
+      sql: this.sql,
+      exchanges: structuredClone(this.exchanges),
+    };
+  }
+
+  /**
+   * Write the recorded traffic to a JSON file.
+   *
+   * @param path - Path of the fixture file
+   */
+  async save(path: string): Promise<void> {
+    const { writeFile } = await import("node:fs/promises");
+    await writeFile(path, JSON.stringify(this.toFixture(), null, 2) + "\n");
+  }
+
+  private recordResponse(response: Response, text: string): RecordedResponse {
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    const recorded: RecordedResponse = { status: response.status, headers };
+    const contentType = headers["content-type"] ?? "";
+    const json = contentType.includes("ndjson") ? undefined : parseBody(text);
+    if (json !== undefined && typeof json === "object") {
+      recorded.json = this.redactJson(json);
+    } else if (text) {
+      recorded.text = contentType.includes("ndjson")
+        ? this.redactNdjson(text)
+        : text;
+    }
+    return recorded;
+  }
+
+  /** Redact SQL of job statuses and history, and values of results */
+  private redactJson(json: unknown): unknown {
+    const body = json as {
+      statements?: unknown;
+      columns?: unknown;
+      data?: unknown;
+    };
+    const redacted: Record<string, unknown> = { ...body };
+
+    if (this.sql !== "full" && Array.isArray(body.statements)) {
+      redacted.statements = body.statements.map((statement: unknown) =>
+        statement && typeof statement === "object" && "query" in statement
+          ? { ...statement, query: redactSql(statement.query, this.sql) }
+          : statement
+      );
+    }
+
+    const redactValue = this.redactValue;
+    if (redactValue && Array.isArray(body.data)) {
+      const columns = Array.isArray(body.columns)
+        ? (body.columns as Array<{ name?: string }>)
+        : [];
+      redacted.data = body.data.map((row: unknown) =>
+        Array.isArray(row)
+          ? row.map((value, index) =>
+              redactValue(value, columns[index]?.name ?? String(index))
+            )
+          : row
+      );
+    }
+    return redacted;
+  }
+
+  private redactNdjson(text: string): string {
+    const redactValue = this.redactValue;
+    if (!redactValue) {
+      return text;
+    }
+    return text
+      .split("\n")
+      .map((line) => {
+        if (!line.trim()) {
+          return line;
+        }
+        const record = JSON.parse(line) as Record<string, unknown>;
+        for (const [column, value] of Object.entries(record)) {
+          record[column] = redactValue(value, column);
+        }
+        return JSON.stringify(record);
+      })
+      .join("\n");
+  }
+
+  /** Remove the token and other secrets wherever they appear */
+  private sanitize(exchange: RecordedExchange): RecordedExchange {
+    let serialized = JSON.stringify(exchange);
+    for (const secret of this.secrets) {
+      if (secret) {
+        serialized = serialized.split(secret).join(REDACTED);
+      }
+    }
+    return JSON.parse(serialized) as RecordedExchange;
+  }
+}
+
+/**
+ * Serves recorded traffic back to a client.
+ *
+ * Requests are matched by method, path, query parameters and body. Each
+ * recorded exchange is served once, in recorded order; a GET request
+ * without an unused match gets the last matching response again, so extra
+ * polls see the final job status. Pass `replayer.sleep` as
+ * `ClientConfig.sleep` to skip polling and retry waits.
+ */
+export class TrafficReplayer {
+  /** Fetch function serving the recorded responses */
+  readonly fetch: FetchFunction;
+
+  /** Sleep function returning immediately */
+  readonly sleep: SleepFunction = async () => undefined;
+
+  private readonly fixture: TrafficFixture;
+  private readonly used: boolean[];
+
+  constructor(fixture: TrafficFixture) {
+    this.fixture = fixture;
+    this.used = fixture.exchanges.map(() => false);
+    this.fetch = async (url, init) => {
+      if (init.signal?.aborted) {
+        throw init.signal.reason;
+      }
+      const body = typeof init.body === "string" ? init.body : undefined;
+      const request = toRecordedRequest(
+        url,
+        init.method ?? "GET",
+        redactRequestBody(parseBody(body), this.fixture.sql)
+      );
+      return this.respond(this.match(request));
+    };
+  }
+
+  /**
+   * Load a fixture saved by `TrafficRecorder.save()`.
+   *
+   * @param path - Path of the fixture file
+   */
+  static async load(path: string): Promise<TrafficReplayer> {
+    const { readFile } = await import("node:fs/promises");
+    const fixture = JSON.parse(await readFile(path, "utf8")) as TrafficFixture;
+    return new TrafficReplayer(fixture);
+  }
+
+  /** Get the recorded exchanges that haven't been served */
+  unused(): RecordedExchange[] {
+    return this.fixture.exchanges.filter((_, index) => !this.used[index]);
+  }
+
+  private match(request: RecordedRequest): RecordedExchange {
+    const key = canonicalJson([request.query, request.body]);
+    const candidates: number[] = [];
+    const matches: number[] = [];
+    this.fixture.exchanges.forEach((exchange, index) => {
+      const recorded = exchange.request;
+      if (
+        recorded.method !== request.method ||
+        recorded.path !== request.path
+      ) {
+        return;
+      }
+      candidates.push(index);
+      if (canonicalJson([recorded.query, recorded.body]) === key) {
+        matches.push(index);
+      }
+    });
+
+    const next = matches.find((index) => !this.used[index]);
+    if (next !== undefined) {
+      this.used[next] = true;
+      return this.fixture.exchanges[next];
+    }
+    if (request.method === "GET" && matches.length > 0) {
+      return this.fixture.exchanges[matches[matches.length - 1]];
+    }
+
+    let message = `No recorded exchange matches ${describeRequest(request)}`;
+    if (matches.length > 0) {
+      message += `: all ${matches.length} matching exchanges were served`;
+    } else if (candidates.length > 0) {
+      const recorded = this.fixture.exchanges[candidates[0]].request;
+      message +=
+        `: ${candidates.length} recorded with other parameters or body,` +
+        ` e.g. ${describeRequest(recorded)}` +
+        (recorded.body !== undefined
+          ? ` with body ${JSON.stringify(recorded.body)}`
+          : "");
+    }
+    if (request.body !== undefined) {
+      message += ` (request body ${JSON.stringify(request.body)})`;
+    }
+    throw new UnmatchedRequestError(
+      message,
+      request.method,
+      describeRequest(request).slice(request.method.length + 1),
+      request.body
+    );
+  }
+
+  private respond(exchange: RecordedExchange): Response {
+    const { status, headers, json, text } = exchange.response;
+    const body = json !== undefined ? JSON.stringify(json) : (text ?? null);
+    return new Response(body, { status, headers });
+  }
+}
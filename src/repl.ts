@@ -0,0 +1,492 @@
+/**
+ * Interactive SQL shell of `kbc-query`.
+ *
+ * Statements may span several lines and run once they end with `;` outside
+ * of strings and comments, so a line may hold several statements.
+ * Results are shown a page at a time, and meta-commands starting with `\`
+ * show the query history, cancel jobs, export results and toggle timing.
+ */
+
+import { once } from "node:events";
+import { createWriteStream } from "node:fs";
+import { appendFile, readFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import type { Client } from "./client";
+import { AbortError } from "./errors";
+import { exportResults } from "./export";
+import { takeStatements } from "./script";
+import { formatTable } from "./table";
+import type { ExportFormat, SqlDialect, WorkspaceScope } from "./types";
+import type { WorkspaceClient } from "./workspace";
+
+/** Rows shown per page (default of `ReplOptions.pageSize`) */
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_HISTORY_LIMIT = 20;
+/** Entries of the persisted history loaded at start */
+const HISTORY_SIZE = 1000;
+const QUERY_PREVIEW_LENGTH = 60;
+
+const HELP = `Statements end with ";" and may span several lines.
+
+Meta-commands:
+  \\next                    Show the next page of the last result
+  \\history [n]             Show the last n statements of the workspace
+  \\cancel [queryJobId]     Cancel the running or the given job
+  \\export <format> <file>  Export the last result as csv, tsv or ndjson
+  \\timing                  Toggle showing the time of statements
+  \\use <workspaceId> [branchId]
+                           Switch to another workspace
+  \\help                    Show this help
+  \\quit                    Exit (or Ctrl-D)
+`;
+
+/** Options of the interactive shell */
+export interface ReplOptions {
+  /** Rows shown per page (default: 50) */
+  pageSize?: number;
+  /** Dialect deciding how statements are split (default: "snowflake") */
+  dialect?: SqlDialect;
+  /** Writes output of the shell */
+  write: (text: string) => void;
+  /** Called with every complete statement or meta-command */
+  onEntry?: (entry: string) => void;
+}
+
+/** Statement whose result is being shown */
+interface ShownResult {
+  queryJobId: string;
+  statementId: string;
+  columns: string[];
+  /** Offset of the next page */
+  offset: number;
+  numberOfRows?: number;
+}
+
+/**
+ * Interactive shell state, fed one line at a time.
+ *
+ * Keeps the workspace context, the statement being typed and the last
+ * result, so `\next` and `\export` can continue with it.
+ */
+export class Repl {
+  private readonly client: Client;
+  private readonly pageSize: number;
+  private readonly dialect?: SqlDialect;
+  private readonly write: (text: string) => void;
+  private readonly onEntry?: (entry: string) => void;
+  private scope: WorkspaceScope;
+  private workspace: WorkspaceClient;
+  private buffer: string[] = [];
+  private timing = false;
+  private lastJobId?: string;
+  private last?: ShownResult;
+  private running?: AbortController;
+
+  constructor(client: Client, scope: WorkspaceScope, options: ReplOptions) {
+    this.client = client;
+    this.scope = scope;
+    this.workspace = client.workspace(scope);
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.dialect = options.dialect;
+    this.write = options.write;
+    this.onEntry = options.onEntry;
+  }
+
+  /** Prompt for the next line */
+  get prompt(): string {
+    return this.buffer.length > 0 ? "...> " : `${this.scope.workspaceId}> `;
+  }
+
+  /** Whether a statement is running */
+  get busy(): boolean {
+    return this.running !== undefined;
+  }
+
+  /**
+   * Abort the running statement, canceling its job, or drop the statement
+   * being typed.
+   *
+   * @returns Whether a statement was running
+   */
+  interrupt(): boolean {
+    if (this.running) {
+      this.running.abort();
+      return true;
+    }
+    this.buffer = [];
+    return false;
+  }
+
+  /**
+   * Handle a line of input.
+   *
+   * @returns "exit" when the shell should end
+   */
+  async handle(line: string): Promise<"continue" | "exit"> {
+    const trimmed = line.trim();
+    if (this.buffer.length === 0) {
+      if (!trimmed) {
+        return "continue";
+      }
+      if (trimmed.startsWith("\\")) {
+        this.onEntry?.(trimmed);
+        return this.command(trimmed);
+      }
+    }
+
+    this.buffer.push(line);
+    const { statements, rest } = takeStatements(this.buffer.join("\n"), {
+      dialect: this.dialect,
+    });
+    this.buffer = rest ? [rest] : [];
+    for (const { sql } of statements) {
+      this.onEntry?.(sql.replace(/\s*\n\s*/g, " "));
+      // Statements after a canceled one are dropped
+      if (!(await this.run(sql))) {
+        break;
+      }
+    }
+    return "continue";
+  }
+
+  private async command(line: string): Promise<"continue" | "exit"> {
+    const [name, ...args] = line.slice(1).split(/\s+/);
+    try {
+      switch (name) {
+        case "q":
+        case "quit":
+          return "exit";
+        case "?":
+        case "help":
+          this.write(HELP);
+          break;
+        case "next":
+          await this.nextPage();
+          break;
+        case "history":
+          await this.history(args[0]);
+          break;
+        case "cancel":
+          await this.cancel(args[0]);
+          break;
+        case "export":
+          await this.export(args[0], args[1]);
+          break;
+        case "timing":
+          this.timing = !this.timing;
+          this.write(`Timing is ${this.timing ? "on" : "off"}.\n`);
+          break;
+        case "use":
+          this.use(args[0], args[1]);
+          break;
+        default:
+          this.write(`Unknown command \\${name}, see \\help\n`);
+      }
+    } catch (error) {
+      this.writeError(error);
+    }
+    return "continue";
+  }
+
+  /** @returns Whether the statement wasn't canceled */
+  private async run(sql: string): Promise<boolean> {
+    const controller = new AbortController();
+    this.running = controller;
+    const startedAt = Date.now();
+    try {
+      const queryJobId = await this.workspace.submitJob({
+        statements: [sql],
+        signal: controller.signal,
+      });
+      this.lastJobId = queryJobId;
+      const status = await this.workspace.waitForJob({
+        queryJobId,
+        signal: controller.signal,
+        cancelOnAbort: true,
+      });
+
+      const statement = status.statements[status.statements.length - 1];
+      if (status.status === "canceled" || !statement) {
+        this.write("Canceled\n");
+        return false;
+      }
+      const first = await this.workspace.getJobResults({
+        queryJobId,
+        statementId: statement.id,
+        pageSize: this.pageSize,
+        signal: controller.signal,
+      });
+      if (first.columns.length === 0) {
+        this.last = undefined;
+        this.write(`OK, ${statement.rowsAffected ?? 0} rows affected\n`);
+      } else {
+        this.last = {
+          queryJobId,
+          statementId: statement.id,
+          columns: first.columns.map((column) => column.name),
+          offset: 0,
+          numberOfRows: first.numberOfRows,
+        };
+        this.showPage(first.data);
+      }
+    } catch (error) {
+      this.writeError(error);
+    } finally {
+      this.running = undefined;
+      if (this.timing) {
+        this.write(`Time: ${Date.now() - startedAt} ms\n`);
+      }
+    }
+    return !controller.signal.aborted;
+  }
+
+  /** Print a page of the last result and advance its offset */
+  private showPage(rows: unknown[][]): void {
+    const last = this.last!;
+    const from = last.offset + 1;
+    last.offset += rows.length;
+    const total = last.numberOfRows;
+    const more =
+      rows.length === this.pageSize &&
+      (total === undefined || last.offset < total);
+
+    let footer: string;
+    if (from === 1 && !more) {
+      footer = `(${rows.length} ${rows.length === 1 ? "row" : "rows"})`;
+    } else {
+      const of = total !== undefined ? ` of ${total}` : "";
+      const hint = more ? ", \\next for more" : "";
+      footer = `(rows ${from}-${last.offset}${of}${hint})`;
+    }
+    this.write(formatTable(last.columns, rows, footer));
+  }
+
+  private async nextPage(): Promise<void> {
+    const last = this.last;
+    if (!last) {
+      this.write("No result to page through\n");
+      return;
+    }
+    const page = await this.workspace.getJobResults({
+      queryJobId: last.queryJobId,
+      statementId: last.statementId,
+      offset: last.offset,
+      pageSize: this.pageSize,
+    });
+    if (page.data.length === 0) {
+      this.write("No more rows\n");
+      return;
+    }
+    this.showPage(page.data);
+  }
+
+  private async history(limit: string | undefined): Promise<void> {
+    const pageSize = limit ? Number(limit) : DEFAULT_HISTORY_LIMIT;
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      this.write(`Invalid number "${limit}"\n`);
+      return;
+    }
+    const { statements } = await this.workspace.getQueryHistory({ pageSize });
+    const rows = statements.map((statement) => {
+      const query = statement.query.replace(/\s+/g, " ");
+      return [
+        statement.createdAt ?? null,
+        statement.status,
+        statement.queryJobId,
+        query.length > QUERY_PREVIEW_LENGTH
+          ? `${query.slice(0, QUERY_PREVIEW_LENGTH - 3)}...`
+          : query,
+      ];
+    });
+    this.write(formatTable(["created", "status", "job", "query"], rows));
+  }
+
+  private async cancel(queryJobId: string | undefined): Promise<void> {
+    if (!queryJobId && this.interrupt()) {
+      return;
+    }
+    const target = queryJobId ?? this.lastJobId;
+    if (!target) {
+      this.write("No job to cancel\n");
+      return;
+    }
+    await this.workspace.cancelJob(target, "Canceled from kbc-query");
+    this.write(`Canceled job ${target}\n`);
+  }
+
+  private async export(
+    format: string | undefined,
+    file: string | undefined
+  ): Promise<void> {
+    if (!format || !file || !["csv", "tsv", "ndjson"].includes(format)) {
+      this.write("Usage: \\export csv|tsv|ndjson <file>\n");
+      return;
+    }
+    const last = this.last;
+    if (!last) {
+      this.write("No result to export\n");
+      return;
+    }
+
+    const stream = createWriteStream(file);
+    try {
+      const rows = await exportResults(
+        this.workspace.iterateResultPages({
+          queryJobId: last.queryJobId,
+          statementId: last.statementId,
+        }),
+        stream,
+        { format: format as ExportFormat }
+      );
+      await once(stream, "close");
+      this.write(`Exported ${rows} rows to ${file}\n`);
+    } catch (error) {
+      stream.destroy();
+      throw error;
+    }
+  }
+
+  private use(workspaceId: string | undefined, branchId?: string): void {
+    if (!workspaceId) {
+      const current = this.scope;
+      this.write(
+        `Using workspace ${current.workspaceId} in branch ${current.branchId}\n`
+      );
+      return;
+    }
+    this.scope = {
+      ...this.scope,
+      workspaceId,
+      branchId: branchId ?? this.scope.branchId,
+    };
+    this.workspace = this.client.workspace(this.scope);
+    this.last = undefined;
+    this.write(`Using workspace ${workspaceId}\n`);
+  }
+
+  private writeError(error: unknown): void {
+    if (error instanceof AbortError) {
+      this.write("Canceled\n");
+    } else {
+      this.write(
+        `ERROR: ${error instanceof Error ? error.message : String(error)}\n`
+      );
+    }
+  }
+}
+
+/** Load the persisted history, newest first as readline expects */
+async function loadHistory(file: string): Promise<string[]> {
+  try {
+    const lines = (await readFile(file, "utf8")).split("\n").filter(Boolean);
+    return lines.slice(-HISTORY_SIZE).reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Run the interactive shell until the input ends or `\quit`.
+ *
+ * @param client - Client to run statements with
+ * @param scope - Initial workspace
+ * @param options - Input and output streams, the history file, and a signal
+ *   closing the shell
+ */
+export async function runRepl(
+  client: Client,
+  scope: WorkspaceScope,
+  options: {
+    input: NodeJS.ReadableStream;
+    output: NodeJS.WritableStream;
+    /** File persisting the command history across sessions */
+    historyFile?: string;
+    dialect?: SqlDialect;
+    terminal?: boolean;
+    signal?: AbortSignal;
+  }
+): Promise<void> {
+  const { input, output, historyFile, signal } = options;
+  // History is best effort, entries are appended in order
+  let saving: Promise<void> = Promise.resolve();
+  const repl = new Repl(client, scope, {
+    dialect: options.dialect,
+    write: (text) => output.write(text),
+    onEntry: (entry) => {
+      if (historyFile) {
+        saving = saving
+          .then(() => appendFile(historyFile, entry + "\n"))
+          .catch(() => undefined);
+      }
+    },
+  });
+
+  const rl = createInterface({
+    input,
+    output,
+    terminal: options.terminal,
+    history: historyFile ? await loadHistory(historyFile) : [],
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true,
+  });
+  // Lines read before the input ends are still handled after "close",
+  // prompts are only shown on terminals
+  let closed = false;
+  let exited = false;
+  rl.on("close", () => {
+    closed = true;
+  });
+  const prompt = () => {
+    if (!closed && rl.terminal) {
+      rl.setPrompt(repl.prompt);
+      rl.prompt();
+    }
+  };
+
+  // Lines are handled one at a time, `\cancel` and Ctrl-C act immediately
+  let pending: Promise<void> = Promise.resolve();
+  rl.on("line", (line) => {
+    if (/^\s*\\cancel\s*$/.test(line) && repl.busy) {
+      repl.interrupt();
+      return;
+    }
+    pending = pending.then(async () => {
+      if (exited) {
+        return;
+      }
+      if ((await repl.handle(line)) === "exit") {
+        exited = true;
+        rl.close();
+      } else {
+        prompt();
+      }
+    });
+  });
+  rl.on("SIGINT", () => {
+    if (!repl.interrupt()) {
+      output.write("^C\n");
+      prompt();
+    }
+  });
+
+  const onAbort = () => {
+    exited = true;
+    repl.interrupt();
+    rl.close();
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  if (rl.terminal) {
+    output.write(
+      'kbc-query interactive mode, \\help for help, ";" runs a statement\n'
+    );
+  }
+  prompt();
+  try {
+    await once(rl, "close");
+    await pending;
+    await saving;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
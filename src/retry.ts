@@ -0,0 +1,151 @@
+/**
+ * Retry decisions for failed requests.
+ */
+
+import { QueryServiceError } from "./errors";
+import type { RetryPolicy, RetryRequest } from "./types";
+
+const DEFAULT_RETRYABLE_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_MAX_RETRY_AFTER = 60000; // 1 minute
+
+/** Statuses for which the server tells us when to come back */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+export function defaultBackoff(attempt: number): number {
+  return Math.min(Math.pow(2, attempt) * 100, 10000);
+}
+
+export function defaultJitter(delay: number): number {
+  return delay + Math.random() * 100;
+}
+
+/**
+ * Parse a `Retry-After` header value (delay in seconds or an HTTP date)
+ * into milliseconds.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Failed attempt as seen by the retry strategy */
+export interface FailedAttempt {
+  error: Error;
+  /** Response of the attempt, `undefined` for network failures */
+  response?: { status: number; headers?: Headers };
+  attempt: number;
+  /** Time spent on the request so far, in milliseconds */
+  elapsed: number;
+}
+
+/** Retry strategy resolved from a `RetryPolicy` */
+export class RetryStrategy {
+  readonly maxRetries: number;
+  private readonly policy: RetryPolicy;
+
+  constructor(policy: RetryPolicy = {}, maxRetries?: number) {
+    this.policy = policy;
+    this.maxRetries = policy.maxRetries ?? maxRetries ?? 3;
+  }
+
+  /** Whether the request may be repeated at all */
+  isRetryable(request: RetryRequest): boolean {
+    if (this.policy.isRetryable) {
+      return this.policy.isRetryable(request);
+    }
+    const methods = (
+      this.policy.retryableMethods ?? DEFAULT_RETRYABLE_METHODS
+    ).map((method) => method.toUpperCase());
+    return request.idempotent || methods.includes(request.method.toUpperCase());
+  }
+
+  /**
+   * Decide whether a failed attempt is retried.
+   *
+   * @returns Delay before the next attempt in milliseconds, `undefined`
+   *   when the failure is not retryable, or `"exhausted"` when it is but
+   *   no retries or budget are left
+   */
+  nextDelay(
+    request: RetryRequest,
+    failure: FailedAttempt
+  ): number | "exhausted" | undefined {
+    const status = failure.response?.status;
+
+    if (!this.isRetryable(request)) {
+      // A 429 means the server rejected the request without processing it
+      if (status !== 429) {
+        return undefined;
+      }
+    } else if (!this.shouldRetry(failure)) {
+      return undefined;
+    }
+
+    if (failure.attempt >= this.maxRetries) {
+      return "exhausted";
+    }
+
+    const delay = this.delayFor(failure);
+    if (
+      this.policy.budget !== undefined &&
+      failure.elapsed + delay > this.policy.budget
+    ) {
+      return "exhausted";
+    }
+    return delay;
+  }
+
+  private shouldRetry(failure: FailedAttempt): boolean {
+    if (
+      failure.error instanceof QueryServiceError &&
+      failure.error.retryable === false
+    ) {
+      return false;
+    }
+    if (this.policy.shouldRetry) {
+      return this.policy.shouldRetry(failure.error, failure.attempt);
+    }
+    if (!failure.response) {
+      return true;
+    }
+    const statuses =
+      this.policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+    return statuses.includes(failure.response.status);
+  }
+
+  private delayFor(failure: FailedAttempt): number {
+    const response = failure.response;
+    if (
+      response &&
+      this.policy.respectRetryAfter !== false &&
+      RETRY_AFTER_STATUSES.includes(response.status)
+    ) {
+      const retryAfter = parseRetryAfter(response.headers?.get("Retry-After"));
+      if (retryAfter !== undefined) {
+        return Math.min(
+          retryAfter,
+          this.policy.maxRetryAfter ?? DEFAULT_MAX_RETRY_AFTER
+        );
+      }
+    }
+
+    return this.backoffDelay(failure.attempt);
+  }
+
+  /** Backoff delay with jitter before retry `attempt` (0-based) */
+  backoffDelay(attempt: number): number {
+    const backoff = (this.policy.backoff ?? defaultBackoff)(attempt);
+    return (this.policy.jitter ?? defaultJitter)(backoff);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Mapping of positional result rows to validated objects.
+ */
+
+import { RowValidationError } from "./errors";
+import type {
+  Column,
+  MappedQueryResult,
+  QueryResult,
+  RowSchema,
+} from "./types";
+
+/** Convert a positional row to an object keyed by column name */
+export function rowToObject(
+  row: unknown[],
+  columns: Column[]
+): Record<string, unknown> {
+  const object: Record<string, unknown> = {};
+  columns.forEach((column, index) => {
+    object[column.name] = row[index];
+  });
+  return object;
+}
+
+/**
+ * Find the column a validation error points at.
+ *
+ * Understands the `issues[].path` shape used by zod (`["id"]`) and
+ * valibot (`[{ key: "id" }]`).
+ */
+function issueColumn(error: unknown): string | undefined {
+  const issues = (error as { issues?: unknown } | null)?.issues;
+  if (!Array.isArray(issues) || issues.length === 0) {
+    return undefined;
+  }
+  const path = (issues[0] as { path?: unknown }).path;
+  if (!Array.isArray(path) || path.length === 0) {
+    return undefined;
+  }
+  const segment = path[0] as unknown;
+  const key =
+    typeof segment === "object" && segment !== null
+      ? (segment as { key?: unknown }).key
+      : segment;
+  return typeof key === "string" ? key : undefined;
+}
+
+/**
+ * Validate every row of a result against a row schema.
+ *
+ * @param result - Query result to map
+ * @param schema - Row schema to validate each row object with
+ * @param statementId - Statement ID, used in validation errors
+ * @returns Result with the validated `rows`
+ * @throws {RowValidationError} If a row does not match the schema
+ */
+export function mapRows<T>(
+  result: QueryResult,
+  schema: RowSchema<T>,
+  statementId: string
+): MappedQueryResult<T> {
+  const parse =
+    typeof schema === "function" ? schema : (row: unknown) => schema.parse(row);
+
+  const rows = result.data.map((row, rowIndex) => {
+    try {
+      return parse(rowToObject(row, result.columns));
+    } catch (error) {
+      const column = issueColumn(error);
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new RowValidationError(
+        `Row ${rowIndex} of statement ${statementId} failed validation` +
+          (column ? ` at column "${column}"` : "") +
+          `: ${reason}`,
+        statementId,
+        rowIndex,
+        column,
+        error
+      );
+    }
+  });
+
+  return { ...result, rows };
+}
@@ -0,0 +1,224 @@
+/**
+ * Splitting of SQL scripts into statements.
+ *
+ * The Query Service takes a list of statements, so scripts with several
+ * statements must be split first. Semicolons inside string literals, quoted
+ * identifiers, comments and Snowflake `$$ ... $$` bodies don't end a
+ * statement.
+ *
+ * @example
+ * ```typescript
+ * import { splitStatements } from '@keboola/query-service';
+ *
+ * const statements = splitStatements(await readFile('load.sql', 'utf8'));
+ * // [{ sql: 'CREATE TABLE ...', startLine: 1, endLine: 4 }, ...]
+ * ```
+ */
+
+import { ScriptSyntaxError } from "./errors";
+import type {
+  ScriptStatement,
+  SplitStatementsOptions,
+  SqlDialect,
+} from "./types";
+
+/** How a quoted token of a dialect is escaped */
+interface QuoteRule {
+  /** Backslash escapes the next character */
+  backslash: boolean;
+  /** A doubled quote stands for the quote itself */
+  doubled: boolean;
+  kind: string;
+}
+
+const QUOTES: Record<SqlDialect, Record<string, QuoteRule>> = {
+  snowflake: {
+    "'": { backslash: true, doubled: true, kind: "string literal" },
+    '"': { backslash: false, doubled: true, kind: "quoted identifier" },
+  },
+  bigquery: {
+    "'": { backslash: true, doubled: false, kind: "string literal" },
+    '"': { backslash: true, doubled: false, kind: "string literal" },
+    "`": { backslash: true, doubled: false, kind: "quoted identifier" },
+  },
+};
+
+function isLineComment(script: string, i: number, dialect: SqlDialect) {
+  const pair = script.slice(i, i + 2);
+  if (pair === "--") {
+    return true;
+  }
+  return dialect === "snowflake" ? pair === "//" : script[i] === "#";
+}
+
+/**
+ * Split a SQL script into statements.
+ *
+ * Statements are separated by `;` and start at their first token. Comments
+ * inside a statement are kept, while comments before it and parts of the
+ * script with only whitespace and comments are dropped. Procedural
+ * `BEGIN ... END` blocks are not recognized, so their bodies must be quoted,
+ * e.g. with `$$` in Snowflake.
+ *
+ * @param script - SQL script
+ * @param options - Dialect of the script (default: "snowflake")
+ * @returns Statements without the trailing `;`, with their source lines
+ * @throws {ScriptSyntaxError} If a string, identifier or comment is not
+ *   terminated
+ */
+export function splitStatements(
+  script: string,
+  options: SplitStatementsOptions = {}
+): ScriptStatement[] {
+  return scan(script, options.dialect ?? "snowflake", false).statements;
+}
+
+/**
+ * Split the statements terminated with `;` off SQL typed so far.
+ *
+ * Used by the interactive shell, which runs statements as soon as they are
+ * complete and keeps the rest for the next line.
+ *
+ * @param text - SQL typed so far
+ * @param options - Dialect of the SQL (default: "snowflake")
+ * @returns Complete statements, and the text after them, which is empty when
+ *   it holds only whitespace and comments
+ */
+export function takeStatements(
+  text: string,
+  options: SplitStatementsOptions = {}
+): { statements: ScriptStatement[]; rest: string } {
+  return scan(text, options.dialect ?? "snowflake", true);
+}
+
+/**
+ * @param partial - Keep the text after the last `;` as `rest` instead of
+ *   making it the last statement, and don't fail on unterminated tokens in it
+ */
+function scan(
+  script: string,
+  dialect: SqlDialect,
+  partial: boolean
+): { statements: ScriptStatement[]; rest: string } {
+  const quotes = QUOTES[dialect];
+  const statements: ScriptStatement[] = [];
+
+  // Line numbers are looked up for increasing offsets only
+  let line = 1;
+  let counted = 0;
+  const lineAt = (offset: number) => {
+    for (; counted < offset; counted++) {
+      if (script.charCodeAt(counted) === 10) {
+        line++;
+      }
+    }
+    return line;
+  };
+
+  let start = 0;
+  // Offset of the first token that isn't whitespace or a comment
+  let codeStart: number | undefined;
+  const push = (end: number) => {
+    if (codeStart !== undefined) {
+      const sql = script.slice(codeStart, end).trimEnd();
+      statements.push({
+        sql,
+        startLine: lineAt(codeStart),
+        endLine: lineAt(codeStart + sql.length - 1),
+      });
+    }
+    start = end + 1;
+    codeStart = undefined;
+  };
+  // Typed SQL may still be missing the end of the token
+  const unterminated = (kind: string, offset: number) => {
+    if (partial) {
+      return { statements, rest: script.slice(start) };
+    }
+    throw new ScriptSyntaxError(
+      `Unterminated ${kind} starting at line ${lineAt(offset)}`,
+      lineAt(offset)
+    );
+  };
+
+  let i = 0;
+  while (i < script.length) {
+    const char = script[i];
+
+    if (isLineComment(script, i, dialect)) {
+      const end = script.indexOf("\n", i);
+      i = end === -1 ? script.length : end + 1;
+      continue;
+    }
+    if (char === "/" && script[i + 1] === "*") {
+      const end = script.indexOf("*/", i + 2);
+      if (end === -1) {
+        return unterminated("comment", i);
+      }
+      i = end + 2;
+      continue;
+    }
+
+    if (dialect === "snowflake" && char === "$" && script[i + 1] === "$") {
+      const end = script.indexOf("$$", i + 2);
+      if (end === -1) {
+        return unterminated("$$ string", i);
+      }
+      codeStart ??= i;
+      i = end + 2;
+      continue;
+    }
+
+    const rule = quotes[char];
+    if (rule) {
+      // BigQuery triple-quoted strings may contain single quotes
+      const triple = char.repeat(3);
+      if (dialect === "bigquery" && script.startsWith(triple, i)) {
+        let end = i + 3;
+        while (end < script.length && !script.startsWith(triple, end)) {
+          end += script[end] === "\\" ? 2 : 1;
+        }
+        if (end >= script.length) {
+          return unterminated(rule.kind, i);
+        }
+        codeStart ??= i;
+        i = end + 3;
+        continue;
+      }
+
+      let end = i + 1;
+      for (; end < script.length; end++) {
+        if (rule.backslash && script[end] === "\\") {
+          end++;
+        } else if (script[end] === char) {
+          if (!rule.doubled || script[end + 1] !== char) {
+            break;
+          }
+          end++;
+        }
+      }
+      if (end >= script.length) {
+        return unterminated(rule.kind, i);
+      }
+      codeStart ??= i;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === ";") {
+      push(i);
+    } else if (char.trim()) {
+      codeStart ??= i;
+    }
+    i++;
+  }
+  if (partial) {
+    return {
+      statements,
+      rest: codeStart !== undefined ? script.slice(start) : "",
+    };
+  }
+  push(script.length);
+
+  return { statements, rest: "" };
+}
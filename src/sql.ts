@@ -0,0 +1,182 @@
+/**
+ * Safe SQL composition with the `sql` tagged template.
+ *
+ * Interpolated values are rendered as escaped literals for the target
+ * dialect, so user input never ends up in the statement as raw SQL.
+ *
+ * @example
+ * ```typescript
+ * import { sql } from '@keboola/query-service';
+ *
+ * const statement = sql`
+ *   SELECT * FROM ${sql.identifier('orders')}
+ *   WHERE customer_id = ${customerId} AND status IN ${sql.in(statuses)}
+ * `;
+ *
+ * await client.executeQuery({ branchId, workspaceId, statements: [statement] });
+ * ```
+ */
+
+import type { SqlDialect } from "./types";
+
+/** Quoted identifier fragment, created by `sql.identifier()` */
+export class SqlIdentifier {
+  constructor(public readonly parts: readonly string[]) {}
+}
+
+/** Raw SQL fragment inserted verbatim, created by `sql.raw()` */
+export class SqlRaw {
+  constructor(public readonly text: string) {}
+}
+
+/** Parenthesized list of literals, created by `sql.in()` */
+export class SqlList {
+  constructor(public readonly values: readonly unknown[]) {}
+}
+
+/** SQL statement built with the `sql` tagged template */
+export class SqlStatement {
+  constructor(
+    public readonly strings: readonly string[],
+    public readonly values: readonly unknown[]
+  ) {}
+
+  /**
+   * Render the statement as SQL text.
+   *
+   * @param dialect - Target SQL dialect (default: "snowflake")
+   */
+  toSQL(dialect: SqlDialect = "snowflake"): string {
+    let text = this.strings[0];
+    for (let i = 0; i < this.values.length; i++) {
+      text += renderValue(this.values[i], dialect) + this.strings[i + 1];
+    }
+    return text;
+  }
+}
+
+function quoteString(value: string, dialect: SqlDialect): string {
+  if (dialect === "bigquery") {
+    const escaped = value
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "\\'")
+      .replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r");
+    return `'${escaped}'`;
+  }
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "''")}'`;
+}
+
+function quoteIdentifier(part: string, dialect: SqlDialect): string {
+  if (dialect === "bigquery") {
+    return `\`${part.replace(/\\/g, "\\\\").replace(/`/g, "\\`")}\``;
+  }
+  return `"${part.replace(/"/g, '""')}"`;
+}
+
+function renderLiteral(value: unknown, dialect: SqlDialect): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (typeof value === "bigint" || Number.isFinite(value)) {
+    // A bare minus could join a preceding one into a `--` comment
+    const text = String(value);
+    return text.startsWith("-") ? `(${text})` : text;
+  }
+  if (typeof value === "number") {
+    const text = Number.isNaN(value) ? "NaN" : value > 0 ? "inf" : "-inf";
+    return `CAST('${text}' AS ${dialect === "bigquery" ? "FLOAT64" : "FLOAT"})`;
+  }
+  if (typeof value === "string") {
+    return quoteString(value, dialect);
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new TypeError("Cannot use an invalid Date as a SQL value");
+    }
+    const iso = quoteString(value.toISOString(), dialect);
+    return dialect === "bigquery" ? `TIMESTAMP ${iso}` : `${iso}::TIMESTAMP_TZ`;
+  }
+  if (Array.isArray(value)) {
+    throw new TypeError(
+      "Cannot use an array as a SQL value, use sql.in() for IN lists"
+    );
+  }
+  if (typeof value === "object") {
+    const json = quoteString(JSON.stringify(value), dialect);
+    return dialect === "bigquery" ? `JSON ${json}` : `PARSE_JSON(${json})`;
+  }
+  throw new TypeError(`Cannot use a value of type ${typeof value} in SQL`);
+}
+
+function renderValue(value: unknown, dialect: SqlDialect): string {
+  if (value instanceof SqlStatement) {
+    return value.toSQL(dialect);
+  }
+  if (value instanceof SqlRaw) {
+    return value.text;
+  }
+  if (value instanceof SqlIdentifier) {
+    return value.parts.map((part) => quoteIdentifier(part, dialect)).join(".");
+  }
+  if (value instanceof SqlList) {
+    return `(${value.values.map((v) => renderLiteral(v, dialect)).join(", ")})`;
+  }
+  return renderLiteral(value, dialect);
+}
+
+/**
+ * Quote an identifier. Multiple parts are joined with dots,
+ * e.g. `sql.identifier('schema', 'table')`.
+ */
+function identifier(...parts: string[]): SqlIdentifier {
+  if (parts.length === 0) {
+    throw new TypeError("sql.identifier() requires at least one part");
+  }
+  return new SqlIdentifier(parts);
+}
+
+/** Insert SQL text verbatim. Never pass user input to this. */
+function raw(text: string): SqlRaw {
+  return new SqlRaw(text);
+}
+
+/** Render values as a parenthesized list for `IN (...)` */
+function inList(values: Iterable<unknown>): SqlList {
+  const list = Array.from(values);
+  if (list.length === 0) {
+    throw new TypeError("sql.in() requires at least one value");
+  }
+  return new SqlList(list);
+}
+
+/** Join fragments or values with a separator (default: ", ") */
+function join(values: Iterable<unknown>, separator = ", "): SqlStatement {
+  const list = Array.from(values);
+  const strings = [
+    "",
+    ...list.slice(1).map(() => separator),
+    ...(list.length > 0 ? [""] : []),
+  ];
+  return new SqlStatement(strings, list);
+}
+
+/**
+ * Tagged template for building SQL statements with safely escaped values.
+ */
+export const sql = Object.assign(
+  (strings: TemplateStringsArray, ...values: unknown[]): SqlStatement =>
+    new SqlStatement(strings, values),
+  { identifier, raw, in: inList, join }
+);
+
+/** Render a plain string or `SqlStatement` as SQL text */
+export function renderStatement(
+  statement: string | SqlStatement,
+  dialect: SqlDialect
+): string {
+  return typeof statement === "string" ? statement : statement.toSQL(dialect);
+}
@@ -0,0 +1,49 @@
+/**
+ * Plain-text tables for the command-line tools.
+ */
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Render rows as a table with aligned columns; numbers align right.
+ *
+ * @param columns - Column names
+ * @param rows - Rows of values
+ * @param footer - Last line (default: the number of rows)
+ */
+export function formatTable(
+  columns: string[],
+  rows: unknown[][],
+  footer = `(${rows.length} ${rows.length === 1 ? "row" : "rows"})`
+): string {
+  const cells = rows.map((row) => columns.map((_, i) => formatCell(row[i])));
+  const widths = columns.map((name, i) =>
+    Math.max(name.length, ...cells.map((row) => row[i].length))
+  );
+  const numeric = columns.map(
+    (_, i) =>
+      rows.length > 0 &&
+      rows.every((row) => row[i] === null || typeof row[i] === "number")
+  );
+  const line = (values: string[]) =>
+    values
+      .map((value, i) =>
+        numeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i])
+      )
+      .join(" | ")
+      .trimEnd();
+
+  return [
+    line(columns),
+    widths.map((width) => "-".repeat(width)).join("-+-"),
+    ...cells.map(line),
+    footer,
+  ]
+    .map((text) => text + "\n")
+    .join("");
+}
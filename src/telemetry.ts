@@ -0,0 +1,69 @@
+/**
+ * OpenTelemetry tracing adapter.
+ *
+ * Works with any tracer structurally compatible with `@opentelemetry/api`,
+ * so the SDK does not depend on it. Spans are started as active spans, so
+ * nested spans are parented through the OpenTelemetry context manager.
+ */
+
+import type {
+  TelemetryAttributeValue,
+  TelemetrySpan,
+  TelemetryTracer,
+} from "./types";
+
+/** `SpanKind.CLIENT` from `@opentelemetry/api` */
+const SPAN_KIND_CLIENT = 2;
+/** `SpanStatusCode.ERROR` from `@opentelemetry/api` */
+const SPAN_STATUS_ERROR = 2;
+
+/** Span attribute names */
+export const SpanAttributes = {
+  BRANCH_ID: "keboola.branch_id",
+  WORKSPACE_ID: "keboola.workspace_id",
+  QUERY_JOB_ID: "keboola.query_job_id",
+  STATEMENT_COUNT: "keboola.statement_count",
+  ROW_COUNT: "keboola.row_count",
+  DB_SYSTEM: "db.system",
+  HTTP_METHOD: "http.request.method",
+  HTTP_STATUS_CODE: "http.response.status_code",
+  HTTP_RESEND_COUNT: "http.request.resend_count",
+  URL: "url.full",
+} as const;
+
+/**
+ * Run `fn` inside an active span, recording errors and ending the span.
+ * Without a tracer, `fn` runs without a span.
+ */
+export async function withSpan<T>(
+  tracer: TelemetryTracer | undefined,
+  name: string,
+  attributes: Record<string, TelemetryAttributeValue>,
+  fn: (span?: TelemetrySpan) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return fn(undefined);
+  }
+
+  return tracer.startActiveSpan(
+    name,
+    { kind: SPAN_KIND_CLIENT, attributes },
+    async (span: TelemetrySpan) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        markSpanFailed(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    }
+  );
+}
+
+/** Record an error on a span and set its status to ERROR */
+export function markSpanFailed(span: TelemetrySpan, error: unknown): void {
+  const exception = error instanceof Error ? error : new Error(String(error));
+  span.recordException(exception);
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: exception.message });
+}
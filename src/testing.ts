@@ -0,0 +1,636 @@
+/**
+ * In-memory fake of the Query Service for tests of code using the SDK.
+ *
+ * Serves the `/api/v1` routes used by `Client` from memory, either through
+ * an injected `fetch` or as a local HTTP server. Jobs run on a simulated
+ * timeline: statements take `statementDuration` milliseconds each and their
+ * outcomes come from a pluggable SQL handler.
+ *
+ * @example
+ * ```typescript
+ * import { Client } from '@keboola/query-service';
+ * import { FakeQueryService } from '@keboola/query-service/testing';
+ *
+ * const service = new FakeQueryService({
+ *   handler: (query) => ({ columns: ['id'], rows: [[1], [2]] })
+ * });
+ * const client = new Client({
+ *   baseUrl: 'https://query.keboola.com',
+ *   token: 'test-token',
+ *   fetch: service.fetch
+ * });
+ * ```
+ */
+
+import type { Server } from "node:http";
+import type {
+  Column,
+  FakeFault,
+  FakeQueryServiceOptions,
+  FakeRequest,
+  FakeRoute,
+  FakeSqlHandler,
+  FakeStatementResult,
+  FetchFunction,
+  JobState,
+  JobStatus,
+  Statement,
+  StatementWithWorkspaceInfo,
+} from "./types";
+
+export type {
+  FakeFault,
+  FakeQueryServiceOptions,
+  FakeRequest,
+  FakeRoute,
+  FakeSqlHandler,
+  FakeStatementContext,
+  FakeStatementResult,
+} from "./types";
+
+export { TrafficRecorder, TrafficReplayer } from "./recording";
+export type {
+  RecordedExchange,
+  RecordedRequest,
+  RecordedResponse,
+  TrafficFixture,
+  TrafficRecorderOptions,
+} from "./types";
+
+const ROUTES: Array<{ method: string; route: FakeRoute; pattern: RegExp }> = [
+  {
+    method: "POST",
+    route: "submit",
+    pattern: /^\/api\/v1\/branches\/([^/]+)\/workspaces\/([^/]+)\/queries$/,
+  },
+  {
+    method: "GET",
+    route: "history",
+    pattern: /^\/api\/v1\/branches\/([^/]+)\/workspaces\/([^/]+)\/queries$/,
+  },
+  { method: "GET", route: "status", pattern: /^\/api\/v1\/queries\/([^/]+)$/ },
+  {
+    method: "POST",
+    route: "cancel",
+    pattern: /^\/api\/v1\/queries\/([^/]+)\/cancel$/,
+  },
+  {
+    method: "GET",
+    route: "results",
+    pattern: /^\/api\/v1\/queries\/([^/]+)\/([^/]+)\/results$/,
+  },
+  {
+    method: "GET",
+    route: "stream",
+    pattern: /^\/api\/v1\/queries\/([^/]+)\/([^/]+)\/results\/stream$/,
+  },
+];
+
+/** A statement of a fake job, with its canned outcome once started */
+interface FakeStatement extends Statement {
+  result?: { columns: Column[]; rows: unknown[][] };
+}
+
+interface FakeJob {
+  status: JobStatus;
+  statements: FakeStatement[];
+  branchId: string;
+  workspaceId: string;
+  /** Simulated time at which the next statement starts */
+  nextStartAt: number;
+  /** Serializes advancing, since the SQL handler may be async */
+  advancing: Promise<void>;
+}
+
+/** Thrown by route handlers to respond with an error */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function toColumn(column: string | Column): Column {
+  return typeof column === "string"
+    ? { name: column, type: "VARCHAR", nullable: true }
+    : column;
+}
+
+function isFinished(state: JobState): boolean {
+  return state === "completed" || state === "failed" || state === "canceled";
+}
+
+/** Copy without the canned result of the statement */
+function publicStatement(statement: FakeStatement): Statement {
+  const { result: _result, ...rest } = statement;
+  return { ...rest };
+}
+
+/**
+ * In-memory Query Service.
+ *
+ * Pass `service.fetch` as `ClientConfig.fetch`, or start a local HTTP
+ * server with `listen()`.
+ */
+export class FakeQueryService {
+  /** Requests received, oldest first */
+  readonly requests: FakeRequest[] = [];
+
+  /** Fetch function serving requests from memory */
+  readonly fetch: FetchFunction;
+
+  private readonly options: FakeQueryServiceOptions;
+  private handler: FakeSqlHandler;
+  private jobs = new Map<string, FakeJob>();
+  private jobsByKey = new Map<string, string>();
+  private faults: Array<FakeFault & { remaining: number }> = [];
+  private nextId = 1;
+  private server?: Server;
+
+  constructor(options: FakeQueryServiceOptions = {}) {
+    this.options = options;
+    this.handler = options.handler ?? (() => ({}));
+    this.fetch = (url, init) => this.handle(new Request(url, init));
+  }
+
+  /** Replace the SQL handler, for jobs submitted from now on */
+  setHandler(handler: FakeSqlHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Fail matching requests, e.g. with 429 or 5xx, before they reach the
+   * route. Faults are matched in the order they were injected.
+   */
+  injectFault(fault: FakeFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /** Get a snapshot of a job, as returned by the status route */
+  getJob(queryJobId: string): JobStatus | undefined {
+    const job = this.jobs.get(queryJobId);
+    return job ? this.snapshot(job) : undefined;
+  }
+
+  /** Forget all jobs, faults and recorded requests */
+  reset(): void {
+    this.jobs.clear();
+    this.jobsByKey.clear();
+    this.faults = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * Serve a request.
+   *
+   * @param request - Request to the Query Service API
+   * @returns Response of the route
+   * @throws {TypeError} When a "network" fault is injected
+   */
+  async handle(request: Request): Promise<Response> {
+    if (request.signal.aborted) {
+      throw request.signal.reason;
+    }
+
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    let route: FakeRoute | undefined;
+    let params: string[] = [];
+    for (const candidate of ROUTES) {
+      const match = candidate.pattern.exec(url.pathname);
+      if (match && candidate.method === method) {
+        route = candidate.route;
+        params = match.slice(1).map(decodeURIComponent);
+        break;
+      }
+    }
+
+    const text = method === "GET" ? "" : await request.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = text;
+    }
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    this.requests.push({ method, route, url: request.url, headers, body });
+
+    if (this.options.latency) {
+      await this.delay(this.options.latency, request.signal);
+    }
+
+    const fault = this.faults.find(
+      (candidate) => !candidate.route || candidate.route === route
+    );
+    if (fault) {
+      if (--fault.remaining <= 0) {
+        this.faults.splice(this.faults.indexOf(fault), 1);
+      }
+      if (fault.status === "network") {
+        throw new TypeError("fetch failed");
+      }
+      return new Response(
+        JSON.stringify({ exception: fault.message ?? "Injected failure" }),
+        {
+          status: fault.status,
+          headers:
+            fault.retryAfter !== undefined
+              ? { "Retry-After": String(fault.retryAfter) }
+              : {},
+        }
+      );
+    }
+
+    try {
+      if (
+        this.options.token !== undefined &&
+        headers["x-storageapi-token"] !== this.options.token
+      ) {
+        throw new HttpError(401, "Invalid access token");
+      }
+      return await this.route(route, params, url, headers, body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return json({ exception: error.message }, error.status);
+      }
+      return json({ exception: (error as Error).message }, 500);
+    }
+  }
+
+  /**
+   * Serve the API over HTTP on localhost.
+   *
+   * @param port - Port to listen on (default: a free port)
+   * @returns Base URL of the server, for `ClientConfig.baseUrl`
+   */
+  async listen(port = 0): Promise<string> {
+    const { createServer } = await import("node:http");
+    const server = createServer((req, res) => {
+      const chunks: Uint8Array[] = [];
+      req.on("data", (chunk: Uint8Array) => chunks.push(chunk));
+      req.on("end", async () => {
+        const headers = new Headers();
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (typeof value === "string") {
+            headers.set(key, value);
+          }
+        }
+        const body = Buffer.concat(chunks);
+        let response: Response;
+        try {
+          response = await this.handle(
+            new Request(`http://${req.headers.host}${req.url}`, {
+              method: req.method,
+              headers,
+              body: body.length > 0 ? body : undefined,
+            })
+          );
+        } catch {
+          // Network faults drop the connection
+          req.socket.destroy();
+          return;
+        }
+        res.writeHead(
+          response.status,
+          Object.fromEntries(response.headers.entries())
+        );
+        res.end(Buffer.from(await response.arrayBuffer()));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve());
+    });
+    this.server = server;
+    const address = server.address();
+    const actualPort =
+      typeof address === "object" && address ? address.port : port;
+    return `http://127.0.0.1:${actualPort}`;
+  }
+
+  /** Stop the HTTP server started with `listen()` */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private async route(
+    route: FakeRoute | undefined,
+    params: string[],
+    url: URL,
+    headers: Record<string, string>,
+    body: unknown
+  ): Promise<Response> {
+    switch (route) {
+      case "submit":
+        return this.submit(params[0], params[1], headers, body);
+      case "history":
+        return this.history(params[0], params[1], url);
+      case "status": {
+        const job = await this.advance(params[0]);
+        return json(this.snapshot(job));
+      }
+      case "cancel":
+        return this.cancel(params[0], body);
+      case "results":
+        return this.results(params[0], params[1], url);
+      case "stream":
+        return this.stream(params[0], params[1]);
+      default:
+        throw new HttpError(404, `Route not found: ${url.pathname}`);
+    }
+  }
+
+  private async submit(
+    branchId: string,
+    workspaceId: string,
+    headers: Record<string, string>,
+    body: unknown
+  ): Promise<Response> {
+    const request = (body ?? {}) as {
+      statements?: unknown;
+      actorType?: JobStatus["actorType"];
+    };
+    if (
+      !Array.isArray(request.statements) ||
+      request.statements.length === 0 ||
+      !request.statements.every((query) => typeof query === "string")
+    ) {
+      throw new HttpError(400, "At least one statement is required");
+    }
+
+    // Repeated submissions with the same key return the original job
+    const key = headers["idempotency-key"];
+    const existing = key ? this.jobsByKey.get(key) : undefined;
+    if (existing) {
+      return json({ queryJobId: existing });
+    }
+
+    const now = Date.now();
+    const createdAt = new Date(now).toISOString();
+    const queryJobId = `job-${this.nextId++}`;
+    const statements = (request.statements as string[]).map(
+      (query): FakeStatement => ({
+        id: `stmt-${this.nextId++}`,
+        query,
+        status: "waiting",
+        createdAt,
+      })
+    );
+    this.jobs.set(queryJobId, {
+      status: {
+        queryJobId,
+        status: this.options.queueDelay ? "enqueued" : "processing",
+        actorType: request.actorType ?? "user",
+        statements: [],
+        createdAt,
+        changedAt: createdAt,
+      },
+      statements,
+      branchId,
+      workspaceId,
+      nextStartAt: now + (this.options.queueDelay ?? 0),
+      advancing: Promise.resolve(),
+    });
+    if (key) {
+      this.jobsByKey.set(key, queryJobId);
+    }
+
+    await this.advance(queryJobId);
+    return json({ queryJobId });
+  }
+
+  private async history(
+    branchId: string,
+    workspaceId: string,
+    url: URL
+  ): Promise<Response> {
+    const pageSize = Number(url.searchParams.get("pageSize") ?? 500);
+    const afterId = url.searchParams.get("afterId");
+
+    const jobs = [...this.jobs.values()].filter(
+      (job) => job.branchId === branchId && job.workspaceId === workspaceId
+    );
+    for (const job of jobs) {
+      await this.advance(job.status.queryJobId);
+    }
+
+    // Newest first
+    const statements: StatementWithWorkspaceInfo[] = jobs
+      .flatMap((job) =>
+        job.statements.map((statement) => ({
+          ...publicStatement(statement),
+          queryJobId: job.status.queryJobId,
+        }))
+      )
+      .reverse();
+    const start = afterId
+      ? statements.findIndex((statement) => statement.id === afterId) + 1
+      : 0;
+    return json({ statements: statements.slice(start, start + pageSize) });
+  }
+
+  private async cancel(queryJobId: string, body: unknown): Promise<Response> {
+    const job = await this.advance(queryJobId);
+    if (!isFinished(job.status.status)) {
+      const now = new Date().toISOString();
+      for (const statement of job.statements) {
+        if (statement.status === "processing") {
+          statement.status = "canceled";
+          statement.completedAt = now;
+        } else if (statement.status === "waiting") {
+          statement.status = "notExecuted";
+        }
+      }
+      job.status.status = "canceled";
+      job.status.canceledAt = now;
+      job.status.changedAt = now;
+      job.status.cancellationReason =
+        (body as { reason?: string } | undefined)?.reason ?? "Canceled";
+    }
+    return json({ queryJobId });
+  }
+
+  private async completedResult(
+    queryJobId: string,
+    statementId: string
+  ): Promise<{
+    statement: FakeStatement;
+    columns: Column[];
+    rows: unknown[][];
+  }> {
+    const job = await this.advance(queryJobId);
+    const statement = job.statements.find((item) => item.id === statementId);
+    if (!statement) {
+      throw new HttpError(404, `Statement ${statementId} not found`);
+    }
+    if (statement.status !== "completed" || !statement.result) {
+      throw new HttpError(
+        400,
+        `Statement ${statementId} is ${statement.status}, not completed`
+      );
+    }
+    return { statement, ...statement.result };
+  }
+
+  private async results(
+    queryJobId: string,
+    statementId: string,
+    url: URL
+  ): Promise<Response> {
+    const { statement, columns, rows } = await this.completedResult(
+      queryJobId,
+      statementId
+    );
+    const offset = Number(url.searchParams.get("offset") ?? 0);
+    const pageSize = Number(url.searchParams.get("pageSize") ?? 500);
+    return json({
+      status: statement.status,
+      columns,
+      data: rows.slice(offset, offset + pageSize),
+      rowsAffected: statement.rowsAffected,
+      numberOfRows: rows.length,
+    });
+  }
+
+  private async stream(
+    queryJobId: string,
+    statementId: string
+  ): Promise<Response> {
+    const { columns, rows } = await this.completedResult(
+      queryJobId,
+      statementId
+    );
+    const lines = rows.map((row) => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        record[column.name] = row[index] ?? null;
+      });
+      return JSON.stringify(record) + "\n";
+    });
+    return new Response(lines.join(""), {
+      status: 200,
+      headers: { "Content-Type": "application/x-ndjson" },
+    });
+  }
+
+  /** Bring a job up to date with the simulated timeline */
+  private async advance(queryJobId: string): Promise<FakeJob> {
+    const job = this.jobs.get(queryJobId);
+    if (!job) {
+      throw new HttpError(404, `Query job ${queryJobId} not found`);
+    }
+    job.advancing = job.advancing.then(() => this.run(job));
+    await job.advancing;
+    return job;
+  }
+
+  private async run(job: FakeJob): Promise<void> {
+    const now = Date.now();
+    const status = job.status;
+    if (isFinished(status.status) || now < job.nextStartAt) {
+      return;
+    }
+    if (status.status === "enqueued") {
+      status.status = "processing";
+      status.changedAt = new Date(job.nextStartAt).toISOString();
+    }
+
+    for (const [index, statement] of job.statements.entries()) {
+      if (statement.status === "completed") {
+        continue;
+      }
+      if (statement.status === "waiting") {
+        statement.status = "processing";
+        statement.executedAt = new Date(job.nextStartAt).toISOString();
+        const outcome = await this.execute(statement, index, job);
+        statement.result = {
+          columns: (outcome.columns ?? []).map(toColumn),
+          rows: outcome.rows ?? [],
+        };
+        statement.rowsAffected = outcome.rowsAffected ?? outcome.rows?.length;
+        statement.error = outcome.error;
+        job.nextStartAt +=
+          outcome.duration ?? this.options.statementDuration ?? 0;
+      }
+      if (now < job.nextStartAt) {
+        return;
+      }
+
+      const completedAt = new Date(job.nextStartAt).toISOString();
+      statement.completedAt = completedAt;
+      status.changedAt = completedAt;
+      if (statement.error !== undefined) {
+        statement.status = "failed";
+        statement.result = undefined;
+        for (const rest of job.statements.slice(index + 1)) {
+          rest.status = "notExecuted";
+        }
+        status.status = "failed";
+        return;
+      }
+      statement.status = "completed";
+      statement.numberOfRows = statement.result?.rows.length;
+    }
+    status.status = "completed";
+  }
+
+  private async execute(
+    statement: FakeStatement,
+    index: number,
+    job: FakeJob
+  ): Promise<FakeStatementResult> {
+    try {
+      return await this.handler(statement.query, {
+        queryJobId: job.status.queryJobId,
+        statementId: statement.id,
+        index,
+        branchId: job.branchId,
+        workspaceId: job.workspaceId,
+      });
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private snapshot(job: FakeJob): JobStatus {
+    return {
+      ...job.status,
+      statements: job.statements.map(publicStatement),
+    };
+  }
+
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal.reason);
+      };
+      const timeoutId = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
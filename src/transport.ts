@@ -0,0 +1,34 @@
+/**
+ * HTTP transport pipeline of the Client.
+ */
+
+import type {
+  FetchFunction,
+  Middleware,
+  NextHandler,
+  TransportRequest,
+} from "./types";
+
+/**
+ * Compose middleware into a single handler that ends with `fetch`.
+ *
+ * The first middleware is the outermost one: it sees the request first and
+ * the response last.
+ */
+export function composeMiddleware(
+  middleware: readonly Middleware[],
+  fetchFn: FetchFunction
+): NextHandler {
+  const send: NextHandler = (request: TransportRequest) =>
+    fetchFn(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+  return middleware.reduceRight<NextHandler>(
+    (next, current) => (request) => current(request, next),
+    send
+  );
+}
@@ -2,6 +2,11 @@
  * Types and interfaces for Keboola Query Service SDK.
  */
 
+import type { SqlStatement } from "./sql";
+
+/** SQL dialect of the workspace backend */
+export type SqlDialect = "snowflake" | "bigquery";
+
 /** Actor type for query jobs */
 export type ActorType = "user" | "system";
 
@@ -36,6 +41,29 @@ export interface Column {
   length?: number;
 }
 
+/**
+ * Custom decoder for a single cell value.
+ *
+ * Receives the raw value as it arrived in the JSON response (never `null`)
+ * and the column it belongs to.
+ */
+export type ValueCodec = (value: unknown, column: Column) => unknown;
+
+/** Options for type-aware decoding of result values */
+export interface DecodeOptions {
+  /**
+   * How to decode integer values of NUMBER/INT columns (default: "auto").
+   * "auto" returns a number when it is a safe integer and a bigint otherwise.
+   */
+  integers?: "number" | "bigint" | "auto";
+  /** How to decode fractional NUMBER/DECIMAL values (default: "number") */
+  decimals?: "number" | "string";
+  /** How to decode DATE and TIMESTAMP values (default: "date") */
+  dates?: "date" | "string";
+  /** Custom codecs keyed by column type (e.g. "VARIANT"), override built-ins */
+  codecs?: Record<string, ValueCodec>;
+}
+
 /** A SQL statement within a query job */
 export interface Statement {
   id: string;
@@ -71,6 +99,28 @@ export interface QueryResult {
   rowsAffected?: number;
   numberOfRows?: number;
   message?: string;
+  /**
+   * Set by `executeQuery` when `fetchAll` or `maxRows` is used:
+   * `true` when rows beyond `maxRows` were left out.
+   */
+  truncated?: boolean;
+}
+
+/**
+ * Validator for a single result row.
+ *
+ * Either an object with a `parse` method (e.g. a zod schema) or a plain
+ * function (e.g. `(row) => v.parse(schema, row)` with valibot). It receives
+ * the row as an object keyed by `Column.name` and must throw when invalid.
+ */
+export type RowSchema<T> =
+  | { parse(row: unknown): T }
+  | ((row: Record<string, unknown>) => T);
+
+/** Query result with rows mapped through a row schema */
+export interface MappedQueryResult<T> extends QueryResult {
+  /** Validated rows, in the same order as `data` */
+  rows: T[];
 }
 
 /** Statement with additional workspace info for query history */
@@ -85,6 +135,231 @@ export interface QueryHistory {
   statements: StatementWithWorkspaceInfo[];
 }
 
+/** Fetch-compatible function used to send HTTP requests */
+export type FetchFunction = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+/** Outgoing HTTP request as seen by middleware */
+export interface TransportRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+/** Sends a request to the next middleware, or to `fetch` for the last one */
+export type NextHandler = (request: TransportRequest) => Promise<Response>;
+
+/**
+ * Request/response middleware.
+ *
+ * Middleware may modify the request before calling `next`, and inspect or
+ * replace the response it returns.
+ */
+export type Middleware = (
+  request: TransportRequest,
+  next: NextHandler
+) => Promise<Response>;
+
+/** Request as seen by the retry policy */
+export interface RetryRequest {
+  method: string;
+  /** API path without query string, e.g. "/api/v1/queries/123" */
+  path: string;
+  /** Whether the SDK considers the request idempotent */
+  idempotent: boolean;
+}
+
+/** Timing and outcome of a single request attempt */
+export interface RetryAttempt {
+  /** Attempt number, starting at 0 */
+  attempt: number;
+  /** HTTP status code, if a response was received */
+  status?: number;
+  /** Error message of the failed attempt */
+  error: string;
+  /** Start of the attempt (epoch milliseconds) */
+  startedAt: number;
+  /** Duration of the attempt in milliseconds */
+  duration: number;
+  /** Delay before the next attempt in milliseconds, if one was made */
+  delay?: number;
+}
+
+/** Retry behavior for failed requests */
+export interface RetryPolicy {
+  /** Maximum number of retries (default: `ClientConfig.maxRetries`, 3) */
+  maxRetries?: number;
+  /**
+   * HTTP methods that are safe to retry (default: GET, HEAD, OPTIONS, PUT,
+   * DELETE; job cancellation is always idempotent)
+   */
+  retryableMethods?: string[];
+  /** Decide per request whether it may be retried, overrides `retryableMethods` */
+  isRetryable?: (request: RetryRequest) => boolean;
+  /** Status codes that are retried (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** Wait as long as the `Retry-After` header asks on 429 and 503 (default: true) */
+  respectRetryAfter?: boolean;
+  /** Upper bound for a `Retry-After` delay in milliseconds (default: 60000) */
+  maxRetryAfter?: number;
+  /** Delay before retry `attempt` (0-based) in milliseconds (default: 100ms doubling, max 10s) */
+  backoff?: (attempt: number) => number;
+  /** Randomize a backoff delay (default: adds up to 100ms) */
+  jitter?: (delay: number) => number;
+  /**
+   * Decide whether a failure of a retryable request is retried. Receives the
+   * error that would be thrown (a `QueryServiceError` for HTTP errors, the
+   * underlying error for network failures). Defaults to retrying network
+   * failures and `retryableStatuses`.
+   */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Overall time budget for all attempts and delays in milliseconds */
+  budget?: number;
+}
+
+/** Emitted before an HTTP request is sent */
+export interface RequestEvent {
+  method: string;
+  url: string;
+  /** Frozen copy of the request headers, with the token redacted */
+  headers: Readonly<Record<string, string>>;
+  /** Attempt number, starting at 0 */
+  attempt: number;
+}
+
+/** Emitted when an HTTP request completes or fails */
+export interface ResponseEvent {
+  method: string;
+  url: string;
+  attempt: number;
+  /** HTTP status code, `undefined` when no response was received */
+  status?: number;
+  /** Duration of the attempt in milliseconds */
+  duration: number;
+  /** Error of a failed attempt */
+  error?: Error;
+}
+
+/** Emitted before a failed request is retried */
+export interface RetryEvent {
+  method: string;
+  url: string;
+  /** Attempt that failed, starting at 0 */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delay: number;
+  status?: number;
+  error: Error;
+}
+
+/** Emitted for every job status poll in `waitForJob` */
+export interface PollEvent {
+  queryJobId: string;
+  /** Poll number, starting at 0 */
+  iteration: number;
+  status: JobState;
+  /** Time spent waiting so far in milliseconds */
+  elapsed: number;
+}
+
+/** Emitted when a polled job changes state */
+export interface JobStateChangeEvent {
+  queryJobId: string;
+  /** Previous state, `undefined` on the first poll */
+  previous?: JobState;
+  current: JobState;
+  job: JobStatus;
+}
+
+/** Emitted when a polled statement reaches a final state */
+export interface StatementCompleteEvent {
+  queryJobId: string;
+  statement: Statement;
+}
+
+/**
+ * Lifecycle hooks for observing the client.
+ *
+ * Hooks are called synchronously; errors thrown by hooks are ignored.
+ */
+export interface ClientHooks {
+  onRequest?: (event: RequestEvent) => void;
+  onResponse?: (event: ResponseEvent) => void;
+  onRetry?: (event: RetryEvent) => void;
+  onPoll?: (event: PollEvent) => void;
+  onJobStateChange?: (event: JobStateChangeEvent) => void;
+  onStatementComplete?: (event: StatementCompleteEvent) => void;
+}
+
+/** Span attribute value, as in OpenTelemetry */
+export type TelemetryAttributeValue = string | number | boolean;
+
+/** Subset of the OpenTelemetry `Span` used by the client */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: TelemetryAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * Subset of the OpenTelemetry `Tracer` used by the client.
+ * Pass `trace.getTracer(...)` from `@opentelemetry/api`.
+ */
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: {
+      kind?: number;
+      attributes?: Record<string, TelemetryAttributeValue>;
+    },
+    fn: F
+  ): ReturnType<F>;
+}
+
+/** Log level, from most to least verbose */
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Structured logger. Compatible with pino: every method takes a context
+ * object followed by a message.
+ */
+export interface Logger {
+  trace?(context: Record<string, unknown>, message: string): void;
+  debug(context: Record<string, unknown>, message: string): void;
+  info(context: Record<string, unknown>, message: string): void;
+  warn(context: Record<string, unknown>, message: string): void;
+  error(context: Record<string, unknown>, message: string): void;
+}
+
+/** How SQL text appears in logs */
+export type SqlLogMode = "full" | "truncated" | "hashed" | "none";
+
+/** Queue of a client-wide concurrency limit */
+export type QueueName = "jobs" | "requests";
+
+/** Occupancy of a concurrency limit */
+export interface LimiterStats {
+  /** Slots in use */
+  active: number;
+  /** Operations waiting for a slot */
+  queued: number;
+  /** Maximum number of slots (`Infinity` when unlimited) */
+  limit: number;
+}
+
+/** Occupancy of the client-wide concurrency limits */
+export interface QueueStats {
+  /** Jobs running through `executeQuery` */
+  jobs: LimiterStats;
+  /** HTTP requests in flight */
+  requests: LimiterStats;
+}
+
 /** Client configuration options */
 export interface ClientConfig {
   /** Base URL of the Query Service (e.g., "https://query.keboola.com") */
@@ -95,42 +370,204 @@ export interface ClientConfig {
   timeout?: number;
   /** Maximum number of retries for failed requests (default: 3) */
   maxRetries?: number;
+  /** Retry behavior for failed requests */
+  retry?: RetryPolicy;
   /** Custom user agent string */
   userAgent?: string;
+  /** SQL dialect used to render `sql` statements (default: "snowflake") */
+  dialect?: SqlDialect;
+  /** Custom fetch implementation (default: global `fetch`) */
+  fetch?: FetchFunction;
+  /** Middleware applied to every request, in order */
+  middleware?: Middleware[];
+  /** Lifecycle hooks */
+  hooks?: ClientHooks | ClientHooks[];
+  /** OpenTelemetry tracer for spans of `executeQuery` and HTTP calls */
+  tracer?: TelemetryTracer;
+  /** Logger, "console" to log to the console, or "silent" (default) */
+  logger?: Logger | "console" | "silent";
+  /** Minimum level of logged messages (default: "info") */
+  logLevel?: LogLevel;
+  /** How SQL statements are logged (default: "hashed") */
+  logSql?: SqlLogMode;
+  /** Maximum number of jobs run by `executeQuery` at once (default: unlimited) */
+  maxConcurrentJobs?: number;
+  /** Maximum number of HTTP requests in flight at once (default: unlimited) */
+  maxConcurrentRequests?: number;
+  /** Maximum number of operations waiting in each queue (default: unlimited) */
+  maxQueueLength?: number;
+  /** Maximum time in milliseconds an operation waits in a queue (default: unlimited) */
+  maxQueueWaitTime?: number;
+  /**
+   * Wait between polls and retries (default: a timer). Replaced in tests to
+   * skip the waits, e.g. with `TrafficReplayer.sleep`.
+   */
+  sleep?: SleepFunction;
+}
+
+/** Waits `ms` milliseconds, or until the signal aborts */
+export type SleepFunction = (ms: number, signal?: AbortSignal) => Promise<void>;
+
+/** Options shared by all requests */
+export interface RequestOptions {
+  /** Signal that aborts the operation, rejecting with `AbortError` */
+  signal?: AbortSignal;
 }
 
 /** Options for executing a query */
-export interface ExecuteQueryOptions {
+export interface ExecuteQueryOptions extends RequestOptions {
   /** Branch ID */
   branchId: string;
   /** Workspace ID */
   workspaceId: string;
-  /** SQL statements to execute */
-  statements: string[];
+  /** SQL statements to execute, as plain strings or `sql` statements */
+  statements: Array<string | SqlStatement>;
+  /** SQL dialect used to render `sql` statements (default: client dialect) */
+  dialect?: SqlDialect;
   /** Whether to execute in a transaction (default: true) */
   transactional?: boolean;
   /** Actor type (default: "user") */
   actorType?: ActorType;
   /** Maximum time to wait for completion in milliseconds (default: 300000) */
   maxWaitTime?: number;
+  /** Decode values based on column types (default: false) */
+  decode?: boolean | DecodeOptions;
+  /** Validate and map rows of every statement to objects */
+  rowSchema?: RowSchema<unknown>;
+  /** Fetch all result pages of every statement (default: false, first page only) */
+  fetchAll?: boolean;
+  /** Fetch result pages up to this many rows per statement, implies `fetchAll` */
+  maxRows?: number;
+  /** Page size used when fetching results (default: 500) */
+  pageSize?: number;
+  /** Cancel the job with `cancelJob` when aborted while waiting (default: false) */
+  cancelOnAbort?: boolean;
+  /** Queue priority when `maxConcurrentJobs` is reached, higher first (default: 0) */
+  priority?: number;
+  /** Called with the receipt once the job is submitted */
+  onSubmitted?: (receipt: SubmitJobReceipt) => void;
+  /**
+   * Return a `StatementOutcome` per statement instead of throwing `JobError`
+   * when the job fails. Results of completed statements are still fetched.
+   */
+  settled?: boolean;
+}
+
+/** Lines of a statement in a SQL script, starting at 1 */
+export interface ScriptLocation {
+  startLine: number;
+  endLine: number;
+}
+
+/** Statement of a SQL script, see `splitStatements` */
+export interface ScriptStatement extends ScriptLocation {
+  /** SQL of the statement, without the trailing `;` */
+  sql: string;
+}
+
+/** Options for splitting a SQL script */
+export interface SplitStatementsOptions {
+  /** Dialect of the script, for its quoting and comments (default: snowflake) */
+  dialect?: SqlDialect;
+}
+
+/** Options for executing a SQL script */
+export interface ExecuteScriptOptions
+  extends Omit<ExecuteQueryOptions, "statements" | "rowSchema" | "settled"> {
+  /** SQL script with statements separated by `;` */
+  script: string;
+}
+
+/** Failed statement of a `JobError` */
+export interface FailedStatement {
+  id: string;
+  error?: string;
+  /** Lines of the statement in the script, for `executeScript` */
+  location?: ScriptLocation;
+}
+
+/** Outcome of a single statement of an `executeQuery` in settled mode */
+export interface StatementOutcome<R = QueryResult> {
+  statement: Statement;
+  /** Final status: completed, failed, canceled or notExecuted */
+  status: StatementState;
+  /** Result, for completed statements */
+  result?: R;
+  /** Error message, for failed statements */
+  error?: string;
+}
+
+/** Options for `executeQueryIncremental` */
+export type IncrementalQueryOptions = Omit<ExecuteQueryOptions, "settled">;
+
+/** Result of a statement yielded by `executeQueryIncremental` */
+export interface StatementResult<R = QueryResult> {
+  statement: Statement;
+  /** Position of the statement in the job */
+  index: number;
+  result: R;
+}
+
+/** Query of a batch, with the same options as `executeQuery` */
+export type BatchQuery = Omit<ExecuteQueryOptions, "signal" | "settled">;
+
+/** Options for executing a batch of queries */
+export interface ExecuteBatchOptions extends RequestOptions {
+  /** Maximum number of queries running at once (default: 4) */
+  concurrency?: number;
+  /** Cancel outstanding jobs as soon as one query fails (default: false) */
+  failFast?: boolean;
 }
 
+/** Settled outcome of a batch query */
+export type BatchOutcome =
+  | { status: "fulfilled"; value: QueryResult[] }
+  | { status: "rejected"; reason: Error };
+
 /** Options for submitting a job */
-export interface SubmitJobOptions {
+export interface SubmitJobOptions extends RequestOptions {
   /** Branch ID */
   branchId: string;
   /** Workspace ID */
   workspaceId: string;
-  /** SQL statements to execute */
-  statements: string[];
+  /** SQL statements to execute, as plain strings or `sql` statements */
+  statements: Array<string | SqlStatement>;
+  /** SQL dialect used to render `sql` statements (default: client dialect) */
+  dialect?: SqlDialect;
   /** Whether to execute in a transaction (default: true) */
   transactional?: boolean;
   /** Actor type (default: "user") */
   actorType?: ActorType;
+  /**
+   * Client-generated key identifying this submission, sent as the
+   * `Idempotency-Key` header (default: random UUID)
+   */
+  requestKey?: string;
+  /**
+   * When the outcome of a submission is ambiguous (network failure, timeout
+   * or 5xx), look for the job in the query history before submitting again
+   * (default: true). When disabled, ambiguous failures are thrown as is.
+   */
+  deduplicate?: boolean;
+  /** Called with the receipt once the job is submitted */
+  onSubmitted?: (receipt: SubmitJobReceipt) => void;
+}
+
+/** Outcome of a job submission */
+export interface SubmitJobReceipt {
+  /** Query job ID */
+  queryJobId: string;
+  /** Key identifying the submission */
+  requestKey: string;
+  /**
+   * `true` when an ambiguous submission was found in the query history
+   * instead of being submitted again, `false` for a newly created job
+   */
+  recovered: boolean;
 }
 
 /** Options for getting job results */
-export interface GetJobResultsOptions {
+export interface GetJobResultsOptions extends RequestOptions {
   /** Query job ID */
   queryJobId: string;
   /** Statement ID */
@@ -139,10 +576,57 @@ export interface GetJobResultsOptions {
   offset?: number;
   /** Page size for pagination (default: 500) */
   pageSize?: number;
+  /** Decode values based on column types (default: false) */
+  decode?: boolean | DecodeOptions;
+  /** Validate and map rows to objects */
+  rowSchema?: RowSchema<unknown>;
+}
+
+/** Options for iterating over paginated results */
+export interface IterateResultsOptions extends RequestOptions {
+  /** Query job ID */
+  queryJobId: string;
+  /** Statement ID */
+  statementId: string;
+  /** Offset of the first row (default: 0) */
+  offset?: number;
+  /** Page size for pagination (default: 500) */
+  pageSize?: number;
+  /** Number of pages to fetch ahead of the consumer (default: 1) */
+  prefetch?: number;
+  /** Decode values based on column types (default: false) */
+  decode?: boolean | DecodeOptions;
+}
+
+/** Options for streaming results */
+export interface StreamResultsOptions extends RequestOptions {
+  /** Decode values based on column types (default: false) */
+  decode?: boolean | DecodeOptions;
+  /**
+   * Column metadata used for decoding. When omitted and decoding is enabled,
+   * it is fetched with a single-row `getJobResults` call.
+   */
+  columns?: Column[];
+  /**
+   * Maximum time in milliseconds to wait for the next chunk of the stream
+   * (default: the client `timeout`)
+   */
+  idleTimeout?: number;
+  /**
+   * When the connection fails or stalls, continue with paginated
+   * `getJobResults` calls from the last delivered row (default: true)
+   */
+  resume?: boolean;
+}
+
+/** Options for streaming results as a `ReadableStream` */
+export interface ResultsStreamOptions extends StreamResultsOptions {
+  /** Raw NDJSON bytes, or parsed row objects (default: "ndjson") */
+  format?: "ndjson" | "rows";
 }
 
 /** Options for waiting for a job */
-export interface WaitForJobOptions {
+export interface WaitForJobOptions extends RequestOptions {
   /** Query job ID */
   queryJobId: string;
   /** Maximum time to wait in milliseconds (default: 300000) */
@@ -151,10 +635,47 @@ export interface WaitForJobOptions {
   pollIntervalStart?: number;
   /** Maximum polling interval in milliseconds (default: 2000) */
   pollIntervalMax?: number;
+  /** Cancel the job with `cancelJob` when aborted (default: false) */
+  cancelOnAbort?: boolean;
 }
 
+/** Options for watching a job */
+export type WatchJobOptions = Omit<
+  WaitForJobOptions,
+  "queryJobId" | "cancelOnAbort"
+>;
+
+/** Job state change yielded by `watchJob` */
+export interface JobTransition extends JobStateChangeEvent {
+  type: "job";
+  /** When the job changed, as reported by the server (`changedAt`) */
+  timestamp: Date;
+}
+
+/** Statement status transition yielded by `watchJob` */
+export interface StatementTransition {
+  type: "statement";
+  queryJobId: string;
+  statement: Statement;
+  /** Position of the statement in the job */
+  index: number;
+  /** Previous status, `undefined` on the first poll */
+  previous?: StatementState;
+  current: StatementState;
+  /** Rows affected by the statement, once reported */
+  rowsAffected?: number;
+  /**
+   * When the statement reached its status, as reported by the server
+   * (`createdAt`, `executedAt` or `completedAt`), or when it was observed
+   */
+  timestamp: Date;
+}
+
+/** Event yielded by `watchJob` */
+export type JobWatchEvent = JobTransition | StatementTransition;
+
 /** Options for getting query history */
-export interface GetQueryHistoryOptions {
+export interface GetQueryHistoryOptions extends RequestOptions {
   /** Branch ID */
   branchId: string;
   /** Workspace ID */
@@ -165,9 +686,244 @@ export interface GetQueryHistoryOptions {
   pageSize?: number;
 }
 
+/** Options of a method without the `branchId` and `workspaceId` parameters */
+export type WorkspaceOptions<T> = Omit<T, "branchId" | "workspaceId">;
+
+/** Workspace a scoped client is bound to, with its defaults */
+export interface WorkspaceScope {
+  /** Branch ID */
+  branchId: string;
+  /** Workspace ID */
+  workspaceId: string;
+  /** Default for `transactional` (default: true) */
+  transactional?: boolean;
+  /** Default for `actorType` (default: "user") */
+  actorType?: ActorType;
+  /** Default for `maxWaitTime` in milliseconds (default: 300000) */
+  maxWaitTime?: number;
+  /**
+   * Number of most recent jobs kept for `listJobs()` (default: 100, 0 turns
+   * tracking off), so long-lived scoped clients don't grow without bound
+   */
+  maxTrackedJobs?: number;
+}
+
+/** Job submitted through a workspace-scoped client */
+export interface SubmittedJob extends SubmitJobReceipt {
+  /** When the job was submitted */
+  submittedAt: Date;
+}
+
+/** Date range, `from` inclusive and `to` exclusive */
+export interface DateRange {
+  from?: Date | string;
+  to?: Date | string;
+}
+
+/** Client-side filter for query history statements */
+export interface HistoryFilter {
+  /** Statement status, or any of several */
+  status?: StatementState | StatementState[];
+  /** Range of `createdAt`. Iteration stops once older statements are reached */
+  createdAt?: DateRange;
+  /** Range of `completedAt` */
+  completedAt?: DateRange;
+  /** Warehouse, or any of several */
+  warehouse?: string | string[];
+  /** Backend size, or any of several */
+  backendSize?: string | string[];
+  /** Query job ID, or any of several */
+  queryJobId?: string | string[];
+  /** Substring or regular expression the SQL text must match */
+  query?: string | RegExp;
+}
+
+/** Options for iterating over query history */
+export interface IterateQueryHistoryOptions
+  extends GetQueryHistoryOptions,
+    HistoryFilter {}
+
+/** Output format of the exporters */
+export type ExportFormat = "csv" | "tsv" | "ndjson";
+
+/**
+ * Node.js `Writable` as used by the exporters, e.g. `fs.createWriteStream()`
+ * or an HTTP response
+ */
+export interface NodeWritableLike {
+  write(chunk: string): boolean;
+  end(): unknown;
+  once(
+    event: "drain" | "error" | "close" | "finish",
+    listener: (...args: unknown[]) => void
+  ): unknown;
+  removeListener(
+    event: "drain" | "error" | "close" | "finish",
+    listener: (...args: unknown[]) => void
+  ): unknown;
+}
+
+/** Destination of an export: a Node.js `Writable` or a Web `WritableStream` */
+export type ExportDestination = NodeWritableLike | WritableStream<Uint8Array>;
+
+/** Options for exporting results */
+export interface ExportOptions extends RequestOptions {
+  /** Output format */
+  format: ExportFormat;
+  /** Field delimiter for CSV and TSV (default: "," for CSV, tab for TSV) */
+  delimiter?: string;
+  /** Write a header row with the column names (default: true) */
+  header?: boolean;
+  /** Text written for null values in CSV and TSV (default: empty string) */
+  nullValue?: string;
+  /** Line ending for CSV and TSV (default: "\r\n" as in RFC 4180) */
+  lineEnding?: "\r\n" | "\n";
+  /**
+   * Columns to write, in order. Required for row objects when the first row
+   * does not have all columns (default: all columns)
+   */
+  columns?: string[];
+  /**
+   * End the destination when the export finishes, and wait until its data
+   * is flushed (default: true)
+   */
+  end?: boolean;
+}
+
 /** API error response */
 export interface ApiErrorResponse {
   exception?: string;
   exceptionId?: string;
   context?: Record<string, unknown>;
 }
+
+/** Route of the Query Service API, as served by `FakeQueryService` */
+export type FakeRoute =
+  | "submit"
+  | "status"
+  | "results"
+  | "stream"
+  | "cancel"
+  | "history";
+
+/** Context passed to the SQL handler of `FakeQueryService` */
+export interface FakeStatementContext {
+  queryJobId: string;
+  statementId: string;
+  /** Position of the statement in the job */
+  index: number;
+  branchId: string;
+  workspaceId: string;
+}
+
+/** Canned outcome of a statement executed by `FakeQueryService` */
+export interface FakeStatementResult {
+  /** Result columns, as names (typed VARCHAR) or full metadata */
+  columns?: Array<string | Column>;
+  /** Result rows */
+  rows?: unknown[][];
+  /** Rows affected (default: number of rows) */
+  rowsAffected?: number;
+  /** Fail the statement with this error */
+  error?: string;
+  /** Time the statement takes in milliseconds (default: `statementDuration`) */
+  duration?: number;
+}
+
+/**
+ * Produces the outcome of a statement executed by `FakeQueryService`.
+ * Throwing fails the statement with the error message.
+ */
+export type FakeSqlHandler = (
+  query: string,
+  context: FakeStatementContext
+) => FakeStatementResult | Promise<FakeStatementResult>;
+
+/** Options for `FakeQueryService` */
+export interface FakeQueryServiceOptions {
+  /** SQL handler (default: every statement completes without rows) */
+  handler?: FakeSqlHandler;
+  /** Time every statement takes in milliseconds (default: 0) */
+  statementDuration?: number;
+  /** Time a job stays enqueued before it starts in milliseconds (default: 0) */
+  queueDelay?: number;
+  /** Delay of every response in milliseconds (default: 0) */
+  latency?: number;
+  /** Reject requests without this `X-StorageAPI-Token` with 401 */
+  token?: string;
+}
+
+/** Failure injected into `FakeQueryService` responses */
+export interface FakeFault {
+  /** Route to fail (default: any route) */
+  route?: FakeRoute;
+  /** HTTP status to respond with, or "network" to reject like `fetch` does */
+  status: number | "network";
+  /** Error message of the response (default: "Injected failure") */
+  message?: string;
+  /** `Retry-After` header in seconds */
+  retryAfter?: number;
+  /** Number of matching requests to fail (default: 1) */
+  times?: number;
+}
+
+/** Request received by `FakeQueryService` */
+export interface FakeRequest {
+  method: string;
+  route?: FakeRoute;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/** Request of a recorded exchange */
+export interface RecordedRequest {
+  method: string;
+  /** URL path, without the base URL */
+  path: string;
+  /** Query parameters */
+  query: Record<string, string>;
+  /** JSON request body */
+  body?: unknown;
+}
+
+/** Response of a recorded exchange */
+export interface RecordedResponse {
+  status: number;
+  /** Recorded headers: `content-type` and `retry-after` */
+  headers: Record<string, string>;
+  /** Body of a JSON response */
+  json?: unknown;
+  /** Body of any other response, e.g. an NDJSON stream */
+  text?: string;
+}
+
+/** Request and response recorded by `TrafficRecorder` */
+export interface RecordedExchange {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+/** Recorded API traffic, as saved by `TrafficRecorder` */
+export interface TrafficFixture {
+  version: 1;
+  /** How SQL statements were stored, applied to replayed requests as well */
+  sql: SqlLogMode;
+  exchanges: RecordedExchange[];
+}
+
+/** Options for `TrafficRecorder` */
+export interface TrafficRecorderOptions {
+  /**
+   * How SQL statements are stored (default: "full"). "hashed" keeps
+   * requests matchable on replay without revealing the SQL.
+   */
+  sql?: SqlLogMode;
+  /**
+   * Replace result values, e.g. `() => null` to drop all data. Receives the
+   * value and its column name.
+   */
+  redactValue?: (value: unknown, column: string) => unknown;
+  /** Further strings removed from fixtures, besides the token */
+  secrets?: string[];
+}
@@ -0,0 +1,323 @@
+/**
+ * Workspace-scoped client.
+ *
+ * @example
+ * ```typescript
+ * const workspace = client.workspace({
+ *   branchId: '1261313',
+ *   workspaceId: '2950146661',
+ *   transactional: false
+ * });
+ *
+ * const [result] = await workspace.executeQuery({
+ *   statements: ['SELECT * FROM orders LIMIT 10']
+ * });
+ * ```
+ */
+
+import type { Client } from "./client";
+import type {
+  BatchOutcome,
+  BatchQuery,
+  ExecuteBatchOptions,
+  ExecuteQueryOptions,
+  ExecuteScriptOptions,
+  GetJobResultsOptions,
+  GetQueryHistoryOptions,
+  IncrementalQueryOptions,
+  IterateQueryHistoryOptions,
+  IterateResultsOptions,
+  JobStatus,
+  JobWatchEvent,
+  MappedQueryResult,
+  QueryHistory,
+  QueryResult,
+  RequestOptions,
+  ResultsStreamOptions,
+  RowSchema,
+  StatementOutcome,
+  StatementResult,
+  StatementWithWorkspaceInfo,
+  StreamResultsOptions,
+  SubmitJobOptions,
+  SubmitJobReceipt,
+  SubmittedJob,
+  WaitForJobOptions,
+  WatchJobOptions,
+  WorkspaceOptions,
+  WorkspaceScope,
+} from "./types";
+
+const DEFAULT_MAX_TRACKED_JOBS = 100;
+
+/**
+ * Client bound to a single workspace.
+ *
+ * Created with `client.workspace()`. Methods take the same options as on
+ * `Client` without `branchId` and `workspaceId`, and fall back to the
+ * defaults of the scope. Transport, retries, hooks and concurrency limits
+ * are shared with the parent client.
+ */
+export class WorkspaceClient {
+  /** Branch ID of the scope */
+  readonly branchId: string;
+  /** Workspace ID of the scope */
+  readonly workspaceId: string;
+
+  private readonly scope: WorkspaceScope;
+  private readonly client: Client;
+  private readonly maxTrackedJobs: number;
+  private readonly submitted: SubmittedJob[] = [];
+
+  constructor(client: Client, scope: WorkspaceScope) {
+    this.branchId = scope.branchId;
+    this.workspaceId = scope.workspaceId;
+    this.scope = { ...scope };
+    this.client = client;
+    this.maxTrackedJobs = scope.maxTrackedJobs ?? DEFAULT_MAX_TRACKED_JOBS;
+  }
+
+  /**
+   * List the jobs submitted through this scope, oldest first.
+   *
+   * Only the most recent `maxTrackedJobs` jobs of the scope are kept.
+   *
+   * @returns Submitted jobs
+   */
+  listJobs(): SubmittedJob[] {
+    return [...this.submitted];
+  }
+
+  private withScope<T extends object>(
+    options: T
+  ): T & { branchId: string; workspaceId: string } {
+    return {
+      ...options,
+      branchId: this.scope.branchId,
+      workspaceId: this.scope.workspaceId,
+    };
+  }
+
+  /** Record every job submitted with the options, then notify the caller */
+  private tracked<T extends Pick<SubmitJobOptions, "onSubmitted">>(
+    options: T
+  ): T {
+    const { onSubmitted } = options;
+    return {
+      ...options,
+      onSubmitted: (receipt: SubmitJobReceipt) => {
+        this.record(receipt);
+        onSubmitted?.(receipt);
+      },
+    };
+  }
+
+  private record(receipt: SubmitJobReceipt): void {
+    if (this.maxTrackedJobs <= 0) {
+      return;
+    }
+    this.submitted.push({ ...receipt, submittedAt: new Date() });
+    if (this.submitted.length > this.maxTrackedJobs) {
+      this.submitted.shift();
+    }
+  }
+
+  private queryOptions<
+    T extends Pick<
+      ExecuteQueryOptions,
+      "transactional" | "actorType" | "maxWaitTime" | "onSubmitted"
+    >,
+  >(options: T): T & { branchId: string; workspaceId: string } {
+    return this.withScope({
+      ...this.tracked(options),
+      transactional: options.transactional ?? this.scope.transactional,
+      actorType: options.actorType ?? this.scope.actorType,
+      maxWaitTime: options.maxWaitTime ?? this.scope.maxWaitTime,
+    });
+  }
+
+  /** Submit a query job without waiting, see `Client.submitJob` */
+  async submitJob(
+    options: WorkspaceOptions<SubmitJobOptions>
+  ): Promise<string> {
+    const receipt = await this.submitJobWithReceipt(options);
+    return receipt.queryJobId;
+  }
+
+  /** Submit a query job and report whether it was newly created */
+  async submitJobWithReceipt(
+    options: WorkspaceOptions<SubmitJobOptions>
+  ): Promise<SubmitJobReceipt> {
+    return this.client.submitJobWithReceipt(
+      this.withScope({
+        ...this.tracked(options),
+        transactional: options.transactional ?? this.scope.transactional,
+        actorType: options.actorType ?? this.scope.actorType,
+      })
+    );
+  }
+
+  /** Get the status of a query job */
+  async getJobStatus(
+    queryJobId: string,
+    options?: RequestOptions
+  ): Promise<JobStatus> {
+    return this.client.getJobStatus(queryJobId, options);
+  }
+
+  /** Get results for a specific statement */
+  async getJobResults<T>(
+    options: GetJobResultsOptions & { rowSchema: RowSchema<T> }
+  ): Promise<MappedQueryResult<T>>;
+  async getJobResults(options: GetJobResultsOptions): Promise<QueryResult>;
+  async getJobResults(options: GetJobResultsOptions): Promise<QueryResult> {
+    return this.client.getJobResults(options);
+  }
+
+  /** Cancel a running query job */
+  async cancelJob(
+    queryJobId: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<string> {
+    return this.client.cancelJob(queryJobId, reason, options);
+  }
+
+  /** Get query history of the workspace */
+  async getQueryHistory(
+    options?: WorkspaceOptions<GetQueryHistoryOptions>
+  ): Promise<QueryHistory> {
+    return this.client.getQueryHistory(this.withScope({ ...options }));
+  }
+
+  /** Iterate over the query history of the workspace */
+  iterateQueryHistory(
+    options?: WorkspaceOptions<IterateQueryHistoryOptions>
+  ): AsyncGenerator<StatementWithWorkspaceInfo, void, unknown> {
+    return this.client.iterateQueryHistory(this.withScope({ ...options }));
+  }
+
+  /** Wait for a job to complete, see `Client.waitForJob` */
+  async waitForJob(options: WaitForJobOptions): Promise<JobStatus> {
+    return this.client.waitForJob({
+      ...options,
+      maxWaitTime: options.maxWaitTime ?? this.scope.maxWaitTime,
+    });
+  }
+
+  /** Watch job and statement transitions, see `Client.watchJob` */
+  watchJob(
+    queryJobId: string,
+    options?: WatchJobOptions
+  ): AsyncGenerator<JobWatchEvent, void, unknown> {
+    return this.client.watchJob(queryJobId, {
+      ...options,
+      maxWaitTime: options?.maxWaitTime ?? this.scope.maxWaitTime,
+    });
+  }
+
+  /** Execute query and wait for results, see `Client.executeQuery` */
+  async executeQuery<T>(
+    options: WorkspaceOptions<ExecuteQueryOptions> & {
+      settled: true;
+      rowSchema: RowSchema<T>;
+    }
+  ): Promise<StatementOutcome<MappedQueryResult<T>>[]>;
+  async executeQuery(
+    options: WorkspaceOptions<ExecuteQueryOptions> & { settled: true }
+  ): Promise<StatementOutcome[]>;
+  async executeQuery<T>(
+    options: WorkspaceOptions<ExecuteQueryOptions> & {
+      rowSchema: RowSchema<T>;
+    }
+  ): Promise<MappedQueryResult<T>[]>;
+  async executeQuery(
+    options: WorkspaceOptions<ExecuteQueryOptions>
+  ): Promise<QueryResult[]>;
+  async executeQuery(
+    options: WorkspaceOptions<ExecuteQueryOptions>
+  ): Promise<QueryResult[] | StatementOutcome[]> {
+    return this.client.executeQuery(this.queryOptions(options));
+  }
+
+  /** Execute a SQL script and wait for results, see `Client.executeScript` */
+  async executeScript(
+    options: WorkspaceOptions<ExecuteScriptOptions>
+  ): Promise<QueryResult[]> {
+    return this.client.executeScript(this.queryOptions(options));
+  }
+
+  /** Yield the result of each statement as soon as it completes */
+  executeQueryIncremental<T>(
+    options: WorkspaceOptions<IncrementalQueryOptions> & {
+      rowSchema: RowSchema<T>;
+    }
+  ): AsyncGenerator<StatementResult<MappedQueryResult<T>>, void, unknown>;
+  executeQueryIncremental(
+    options: WorkspaceOptions<IncrementalQueryOptions>
+  ): AsyncGenerator<StatementResult, void, unknown>;
+  executeQueryIncremental(
+    options: WorkspaceOptions<IncrementalQueryOptions>
+  ): AsyncGenerator<StatementResult, void, unknown> {
+    return this.client.executeQueryIncremental(this.queryOptions(options));
+  }
+
+  /** Execute many independent queries, see `Client.executeBatch` */
+  async executeBatch(
+    queries: WorkspaceOptions<BatchQuery>[],
+    options?: ExecuteBatchOptions
+  ): Promise<BatchOutcome[]> {
+    return this.client.executeBatch(
+      queries.map((query) => this.queryOptions(query)),
+      options
+    );
+  }
+
+  /** Iterate over all result pages of a statement */
+  iterateResultPages(
+    options: IterateResultsOptions
+  ): AsyncGenerator<QueryResult, void, unknown> {
+    return this.client.iterateResultPages(options);
+  }
+
+  /** Iterate over all result rows of a statement */
+  iterateResults(
+    options: IterateResultsOptions
+  ): AsyncGenerator<unknown[], void, unknown> {
+    return this.client.iterateResults(options);
+  }
+
+  /** Stream results as an async generator */
+  streamResults(
+    queryJobId: string,
+    statementId: string,
+    options?: StreamResultsOptions
+  ): AsyncGenerator<Record<string, unknown>, void, unknown> {
+    return this.client.streamResults(queryJobId, statementId, options);
+  }
+
+  /** Stream results as a `ReadableStream`, see `Client.openResultsStream` */
+  async openResultsStream(
+    queryJobId: string,
+    statementId: string,
+    options: ResultsStreamOptions & { format: "rows" }
+  ): Promise<ReadableStream<Record<string, unknown>>>;
+  async openResultsStream(
+    queryJobId: string,
+    statementId: string,
+    options?: ResultsStreamOptions & { format?: "ndjson" }
+  ): Promise<ReadableStream<Uint8Array>>;
+  async openResultsStream(
+    queryJobId: string,
+    statementId: string,
+    options?: ResultsStreamOptions
+  ): Promise<
+    ReadableStream<Uint8Array> | ReadableStream<Record<string, unknown>>
+  > {
+    return this.client.openResultsStream(
+      queryJobId,
+      statementId,
+      options as ResultsStreamOptions & { format?: "ndjson" }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+import { Readable, Writable } from "node:stream";
+import { describe, it, expect } from "vitest";
+import { ExitCode, runCli, type CliIO } from "../src/cli";
+import { FakeQueryService } from "../src/testing";
+
+const env = {
+  KEBOOLA_TOKEN: "test-token",
+  KEBOOLA_BRANCH_ID: "branch-1",
+  KEBOOLA_WORKSPACE_ID: "ws-1",
+};
+
+function createIO(service: FakeQueryService, stdin: string[] = []) {
+  const output = { stdout: "", stderr: "" };
+  const io: CliIO = {
+    stdin: Object.assign(Readable.from(stdin), {
+      isTTY: stdin.length === 0,
+    }),
+    stdout: new Writable({
+      write(chunk, _encoding, callback) {
+        output.stdout += String(chunk);
+        callback();
+      },
+    }),
+    stderr: {
+      write: (text: string) => {
+        output.stderr += text;
+      },
+    },
+    env,
+    fetch: service.fetch,
+  };
+  return { io, output };
+}
+
+const customers = new FakeQueryService({
+  handler: () => ({
+    columns: ["id", "name"],
+    rows: [
+      [1, "Alice"],
+      [20, null],
+    ],
+  }),
+});
+
+describe("runCli", () => {
+  it("should print the result of the last statement as a table", async () => {
+    const { io, output } = createIO(customers);
+
+    const code = await runCli(["SELECT 1", "SELECT * FROM customers"], io);
+
+    expect(code).toBe(ExitCode.OK);
+    expect(output.stdout).toContain("20 | NULL");
+    const submit = customers.requests.find(
+      (request) => request.route === "submit"
+    );
+    expect(submit?.body).toMatchObject({
+      statements: ["SELECT 1", "SELECT * FROM customers"],
+    });
+  });
+
+  it("should read SQL from stdin and print JSON", async () => {
+    const { io, output } = createIO(customers, [
+      "SELECT * ",
+      "FROM customers\n",
+    ]);
+
+    const code = await runCli(["--format", "json"], io);
+
+    expect(code).toBe(ExitCode.OK);
+    expect(JSON.parse(output.stdout)).toEqual([
+      { id: 1, name: "Alice" },
+      { id: 20, name: null },
+    ]);
+  });
+
+  it("should split a script into statements", async () => {
+    const service = new FakeQueryService();
+    const { io } = createIO(service, [
+      "CREATE TABLE t (note TEXT);\n",
+      "INSERT INTO t VALUES ('a;b');\n",
+      "-- done\n",
+    ]);
+
+    expect(await runCli([], io)).toBe(ExitCode.OK);
+    const submit = service.requests.find(
+      (request) => request.route === "submit"
+    );
+    expect(submit?.body).toMatchObject({
+      statements: ["CREATE TABLE t (note TEXT)", "INSERT INTO t VALUES ('a;b')"],
+    });
+  });
+
+  it("should split a script in the given dialect", async () => {
+    const service = new FakeQueryService();
+    const { io } = createIO(service, ["SELECT `a;b` FROM t; # done;\n"]);
+
+    expect(await runCli(["-d", "bigquery"], io)).toBe(ExitCode.OK);
+    const submit = service.requests.find(
+      (request) => request.route === "submit"
+    );
+    expect(submit?.body).toMatchObject({
+      statements: ["SELECT `a;b` FROM t"],
+    });
+
+    const usage = createIO(service);
+    expect(await runCli(["--dialect", "postgres", "SELECT 1"], usage.io)).toBe(
+      ExitCode.USAGE
+    );
+    expect(usage.output.stderr).toContain('Unknown dialect "postgres"');
+  });
+
+  it("should write CSV and stream NDJSON", async () => {
+    const csv = createIO(customers);
+    expect(await runCli(["-o", "csv", "SELECT 1"], csv.io)).toBe(ExitCode.OK);
+    expect(csv.output.stdout).toBe("id,name\r\n1,Alice\r\n20,\r\n");
+
+    const ndjson = createIO(customers);
+    expect(await runCli(["--stream", "SELECT 1"], ndjson.io)).toBe(ExitCode.OK);
+    expect(ndjson.output.stdout).toBe(
+      '{"id":1,"name":"Alice"}\n{"id":20,"name":null}\n'
+    );
+  });
+
+  it("should map errors to exit codes", async () => {
+    const usage = createIO(customers);
+    expect(await runCli(["--format", "xml", "SELECT 1"], usage.io)).toBe(
+      ExitCode.USAGE
+    );
+    expect(usage.output.stderr).toContain('Unknown format "xml"');
+
+    const unauthorized = new FakeQueryService({ token: "other-token" });
+    expect(await runCli(["SELECT 1"], createIO(unauthorized).io)).toBe(
+      ExitCode.AUTHENTICATION
+    );
+
+    const invalid = new FakeQueryService();
+    invalid.injectFault({ route: "submit", status: 400, message: "Bad SQL" });
+    expect(await runCli(["SELECT 1"], createIO(invalid).io)).toBe(
+      ExitCode.VALIDATION
+    );
+
+    const failing = new FakeQueryService({
+      handler: () => ({ error: "Table 'missing' does not exist" }),
+    });
+    const failed = createIO(failing);
+    expect(await runCli(["SELECT * FROM missing"], failed.io)).toBe(
+      ExitCode.JOB_FAILED
+    );
+    expect(failed.output.stderr).toContain("Table 'missing' does not exist");
+
+    const slow = new FakeQueryService({ statementDuration: 60000 });
+    expect(
+      await runCli(["--max-wait", "50", "SELECT 1"], createIO(slow).io)
+    ).toBe(ExitCode.JOB_TIMEOUT);
+  });
+
+  it("should run statements in the interactive shell", async () => {
+    const { io, output } = createIO(customers, [
+      "SELECT id, name\n",
+      "FROM customers;\n",
+    ]);
+
+    const code = await runCli(["--interactive"], {
+      ...io,
+      env: { ...env, KEBOOLA_QUERY_HISTORY: "" },
+    });
+
+    expect(code).toBe(ExitCode.OK);
+    expect(output.stdout).toBe(
+      "id | name\n---+------\n 1 | Alice\n20 | NULL\n(2 rows)\n"
+    );
+  });
+
+  it("should cancel the running job on Ctrl-C", async () => {
+    const slow = new FakeQueryService({ statementDuration: 60000 });
+    const controller = new AbortController();
+    const { io, output } = createIO(slow);
+    setTimeout(() => controller.abort(), 50);
+
+    const code = await runCli(["SELECT 1"], {
+      ...io,
+      signal: controller.signal,
+    });
+
+    expect(code).toBe(ExitCode.CANCELED);
+    expect(output.stderr).toBe("kbc-query: Canceled\n");
+    expect(slow.getJob("job-1")?.status).toBe("canceled");
+  });
+});
@@ -1,11 +1,19 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Client } from "../src/client";
+import { sql } from "../src/sql";
 import {
   AuthenticationError,
   ValidationError,
   NotFoundError,
   JobError,
   JobTimeoutError,
+  AbortError,
+  QueryServiceError,
+  RetryExhaustedError,
+  QueueLimitError,
+  StreamTimeoutError,
+  MalformedResultError,
+  ScriptSyntaxError,
 } from "../src/errors";
 
 // Mock fetch
@@ -33,6 +41,81 @@ describe("Client", () => {
     });
   });
 
+  describe("transport", () => {
+    it("should use an injected fetch and middleware", async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+      const seen: number[] = [];
+      const c = new Client({
+        baseUrl: "https://query.keboola.com",
+        token: "test",
+        fetch: customFetch,
+        middleware: [
+          async (request, next) => {
+            request.headers["X-Correlation-Id"] = "corr-1";
+            const response = await next(request);
+            seen.push(response.status);
+            return response;
+          },
+        ],
+      });
+
+      await c.getJobStatus("job-123");
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(customFetch).toHaveBeenCalledWith(
+        "https://query.keboola.com/api/v1/queries/job-123",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "X-Correlation-Id": "corr-1" }),
+        })
+      );
+      expect(seen).toEqual([200]);
+    });
+
+    it("should run middleware in registration order", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+      const order: string[] = [];
+      client
+        .use(async (request, next) => {
+          order.push("first");
+          return next(request);
+        })
+        .use(async (request, next) => {
+          order.push("second");
+          return next(request);
+        });
+
+      await client.cancelJob("job-123");
+      expect(order).toEqual(["first", "second"]);
+    });
+
+    it("should send streamResults through the pipeline", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('{"id":1}\n{"id":2}\n', { status: 200 })
+      );
+      const urls: string[] = [];
+      client.use(async (request, next) => {
+        urls.push(request.url);
+        return next(request);
+      });
+
+      const rows = [];
+      for await (const row of client.streamResults("job-123", "stmt-1")) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(urls).toEqual([
+        "https://query.keboola.com/api/v1/queries/job-123/stmt-1/results/stream",
+      ]);
+    });
+  });
+
   describe("submitJob", () => {
     it("should submit a job and return job ID", async () => {
       mockFetch.mockResolvedValueOnce({
@@ -60,6 +143,23 @@ describe("Client", () => {
       );
     });
 
+    it("should render sql statements for the requested dialect", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+
+      await client.submitJob({
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        statements: ["SELECT 1", sql`SELECT ${"it's"}`],
+        dialect: "bigquery",
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.statements).toEqual(["SELECT 1", "SELECT 'it\\'s'"]);
+    });
+
     it("should throw AuthenticationError on 401", async () => {
       mockFetch.mockResolvedValueOnce({
         status: 401,
@@ -106,6 +206,291 @@ describe("Client", () => {
     });
   });
 
+  describe("retries", () => {
+    const unavailable = {
+      status: 503,
+      headers: new Headers({ "Retry-After": "0" }),
+      text: async () => JSON.stringify({ exception: "Unavailable" }),
+    };
+
+    it("should retry GET requests and report every attempt when exhausted", async () => {
+      const c = new Client({
+        baseUrl: "https://query.keboola.com",
+        token: "test",
+        retry: { maxRetries: 2 },
+      });
+      mockFetch.mockResolvedValue(unavailable);
+
+      const error = await c.getJobStatus("job-123").catch((e) => e);
+
+      expect(error).toBeInstanceOf(RetryExhaustedError);
+      expect(error.statusCode).toBe(503);
+      expect(error.attempts).toHaveLength(3);
+      expect(error.attempts.map((a: { status: number }) => a.status)).toEqual([
+        503, 503, 503,
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      mockFetch.mockReset();
+    });
+
+    it("should not retry job submission on server errors", async () => {
+      mockFetch.mockResolvedValueOnce(unavailable);
+
+      const error = await client
+        .submitJob({
+          branchId: "branch-1",
+          workspaceId: "ws-1",
+          statements: ["SELECT 1"],
+          deduplicate: false,
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(QueryServiceError);
+      expect(error).not.toBeInstanceOf(RetryExhaustedError);
+      expect(error.statusCode).toBe(503);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry job submission rejected with 429", async () => {
+      mockFetch.mockResolvedValueOnce({ ...unavailable, status: 429 });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+
+      const jobId = await client.submitJob({
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        statements: ["SELECT 1"],
+      });
+
+      expect(jobId).toBe("job-123");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("duplicate-safe submission", () => {
+    const options = {
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      statements: ["SELECT 1", "SELECT 2"],
+      requestKey: "key-1",
+    };
+    const history = (statements: unknown[]) => ({
+      status: 200,
+      json: async () => ({ statements }),
+    });
+
+    it("should send the request key", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+
+      const receipt = await client.submitJobWithReceipt(options);
+
+      expect(receipt).toEqual({
+        queryJobId: "job-123",
+        requestKey: "key-1",
+        recovered: false,
+      });
+      expect(mockFetch.mock.calls[0][1].headers["Idempotency-Key"]).toBe(
+        "key-1"
+      );
+    });
+
+    it("should recover a job found in the history after a timeout", async () => {
+      // Created by the first attempt, after it was sent
+      const now = new Date(Date.now() + 1000).toISOString();
+      mockFetch.mockRejectedValueOnce(new Error("socket hang up"));
+      mockFetch.mockResolvedValueOnce(
+        history([
+          { id: "s-4", query: "SELECT 3", queryJobId: "other", createdAt: now },
+          { id: "s-3", query: "SELECT 2", queryJobId: "job-9", createdAt: now },
+          { id: "s-2", query: "SELECT 1", queryJobId: "job-9", createdAt: now },
+          {
+            id: "s-1",
+            query: "SELECT 1",
+            queryJobId: "old",
+            createdAt: "2020-01-01T00:00:00Z",
+          },
+        ])
+      );
+
+      const receipt = await client.submitJobWithReceipt(options);
+
+      expect(receipt.queryJobId).toBe("job-9");
+      expect(receipt.recovered).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should resubmit with the same key when no job was created", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 502,
+        text: async () => "Bad Gateway",
+      });
+      mockFetch.mockResolvedValueOnce(history([]));
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+
+      const receipt = await client.submitJobWithReceipt(options);
+
+      expect(receipt).toEqual({
+        queryJobId: "job-123",
+        requestKey: "key-1",
+        recovered: false,
+      });
+      const posts = mockFetch.mock.calls.filter(
+        ([, init]) => init.method === "POST"
+      );
+      expect(posts).toHaveLength(2);
+      expect(posts[1][1].headers["Idempotency-Key"]).toBe("key-1");
+    });
+
+    it("should not recover identical jobs created before the first attempt", async () => {
+      const before = new Date(Date.now() - 60000).toISOString();
+      mockFetch.mockResolvedValueOnce({
+        status: 503,
+        text: async () => "Service Unavailable",
+      });
+      mockFetch.mockResolvedValueOnce(
+        history([
+          {
+            id: "s-2",
+            query: "SELECT 2",
+            queryJobId: "old",
+            createdAt: before,
+          },
+          {
+            id: "s-1",
+            query: "SELECT 1",
+            queryJobId: "old",
+            createdAt: before,
+          },
+        ])
+      );
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-new" }),
+      });
+
+      const receipt = await client.submitJobWithReceipt(options);
+
+      expect(receipt).toMatchObject({
+        queryJobId: "job-new",
+        recovered: false,
+      });
+    });
+
+    it("should never recover a job the client already received", async () => {
+      const later = new Date(Date.now() + 1000).toISOString();
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-1" }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 503,
+        text: async () => "Service Unavailable",
+      });
+      mockFetch.mockResolvedValueOnce(
+        history([
+          {
+            id: "s-2",
+            query: "SELECT 2",
+            queryJobId: "job-1",
+            createdAt: later,
+          },
+          {
+            id: "s-1",
+            query: "SELECT 1",
+            queryJobId: "job-1",
+            createdAt: later,
+          },
+        ])
+      );
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-2" }),
+      });
+
+      const first = await client.submitJob(options);
+      const second = await client.submitJobWithReceipt({
+        ...options,
+        requestKey: "key-2",
+      });
+
+      expect(first).toBe("job-1");
+      expect(second).toMatchObject({ queryJobId: "job-2", recovered: false });
+    });
+
+    it("should recover a job from a server slightly behind", async () => {
+      // 400 ms behind, with creation times in whole seconds
+      const created = new Date(Math.floor((Date.now() - 400) / 1000) * 1000);
+      const createdAt = created.toISOString().replace(".000Z", "Z");
+      mockFetch.mockRejectedValueOnce(new Error("socket hang up"));
+      mockFetch.mockResolvedValueOnce(
+        history([
+          { id: "s-2", query: "SELECT 2", queryJobId: "job-9", createdAt },
+          { id: "s-1", query: "SELECT 1", queryJobId: "job-9", createdAt },
+        ])
+      );
+
+      const receipt = await client.submitJobWithReceipt(options);
+
+      expect(receipt).toMatchObject({ queryJobId: "job-9", recovered: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should take the window start from the server clock", async () => {
+      // The local clock is an hour behind the server
+      const serverNow = Date.now() + 3600000;
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        headers: new Headers({ Date: new Date(serverNow).toUTCString() }),
+        json: async () => ({ queryJobId: "job-1" }),
+      });
+      mockFetch.mockRejectedValueOnce(new Error("socket hang up"));
+      mockFetch.mockResolvedValueOnce(
+        history([
+          {
+            id: "s-2",
+            query: "SELECT 2",
+            queryJobId: "job-9",
+            createdAt: new Date(serverNow - 60000).toISOString(),
+          },
+          {
+            id: "s-1",
+            query: "SELECT 1",
+            queryJobId: "job-9",
+            createdAt: new Date(serverNow - 60000).toISOString(),
+          },
+        ])
+      );
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-10" }),
+      });
+
+      await client.getJobStatus("job-1");
+      const receipt = await client.submitJobWithReceipt(options);
+
+      expect(receipt).toMatchObject({ queryJobId: "job-10", recovered: false });
+    });
+
+    it("should not resubmit when the history can't be checked", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("socket hang up"));
+      mockFetch.mockResolvedValueOnce({
+        status: 403,
+        text: async () => "Forbidden",
+      });
+
+      await expect(client.submitJob(options)).rejects.toThrow("socket hang up");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("getJobStatus", () => {
     it("should return job status", async () => {
       const mockStatus = {
@@ -160,6 +545,157 @@ describe("Client", () => {
       expect(result.columns).toHaveLength(2);
       expect(result.data).toHaveLength(2);
     });
+
+    it("should decode values when requested", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          status: "completed",
+          columns: [
+            { name: "id", type: "NUMBER(38,0)", nullable: false },
+            { name: "created", type: "DATE", nullable: true },
+          ],
+          data: [["1", "2024-01-01"]],
+        }),
+      });
+
+      const result = await client.getJobResults({
+        queryJobId: "job-123",
+        statementId: "stmt-1",
+        decode: { dates: "string" },
+      });
+
+      expect(result.data).toEqual([[1, "2024-01-01"]]);
+    });
+  });
+
+  describe("iterateResults", () => {
+    const rows = Array.from({ length: 5 }, (_, i) => [i]);
+
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    function mockPages() {
+      mockFetch.mockImplementation(async (url: string) => {
+        const params = new URL(url).searchParams;
+        const offset = Number(params.get("offset"));
+        const pageSize = Number(params.get("pageSize"));
+        return {
+          status: 200,
+          json: async () => ({
+            status: "completed",
+            columns: [{ name: "n", type: "integer", nullable: false }],
+            data: rows.slice(offset, offset + pageSize),
+          }),
+        };
+      });
+    }
+
+    it("should walk all pages", async () => {
+      mockPages();
+
+      const collected: unknown[][] = [];
+      for await (const row of client.iterateResults({
+        queryJobId: "job-123",
+        statementId: "stmt-1",
+        pageSize: 2,
+      })) {
+        collected.push(row);
+      }
+
+      expect(collected).toEqual(rows);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should yield pages and stop on an empty first page", async () => {
+      mockFetch.mockResolvedValue({
+        status: 200,
+        json: async () => ({ status: "completed", columns: [], data: [] }),
+      });
+
+      const pages = [];
+      for await (const page of client.iterateResultPages({
+        queryJobId: "job-123",
+        statementId: "stmt-1",
+        prefetch: 3,
+      })) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not prefetch beyond numberOfRows", async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        const offset = Number(new URL(url).searchParams.get("offset"));
+        return {
+          status: 200,
+          json: async () => ({
+            status: "completed",
+            columns: [],
+            numberOfRows: 4,
+            data: rows.slice(offset, Math.min(offset + 2, 4)),
+          }),
+        };
+      });
+
+      const collected: unknown[][] = [];
+      for await (const row of client.iterateResults({
+        queryJobId: "job-123",
+        statementId: "stmt-1",
+        pageSize: 2,
+        prefetch: 5,
+      })) {
+        collected.push(row);
+      }
+
+      expect(collected).toHaveLength(4);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fetch all rows or truncate in executeQuery", async () => {
+      const jobResponses = () => {
+        mockFetch.mockResolvedValueOnce({
+          status: 200,
+          json: async () => ({ queryJobId: "job-123" }),
+        });
+        mockFetch.mockResolvedValueOnce({
+          status: 200,
+          json: async () => ({
+            queryJobId: "job-123",
+            status: "completed",
+            actorType: "user",
+            statements: [{ id: "stmt-1", query: "SELECT n", status: "completed" }],
+            createdAt: "2024-01-01T00:00:00Z",
+            changedAt: "2024-01-01T00:00:01Z",
+          }),
+        });
+      };
+      const options = {
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        statements: ["SELECT n"],
+        pageSize: 2,
+      };
+
+      mockPages();
+      jobResponses();
+      const [all] = await client.executeQuery({ ...options, fetchAll: true });
+      expect(all.data).toEqual(rows);
+      expect(all.truncated).toBe(false);
+
+      jobResponses();
+      const [partial] = await client.executeQuery({ ...options, maxRows: 3 });
+      expect(partial.data).toEqual(rows.slice(0, 3));
+      expect(partial.truncated).toBe(true);
+
+      jobResponses();
+      const [exact] = await client.executeQuery({ ...options, maxRows: 5 });
+      expect(exact.data).toEqual(rows);
+      expect(exact.truncated).toBe(false);
+    });
   });
 
   describe("waitForJob", () => {
@@ -223,6 +759,158 @@ describe("Client", () => {
     });
   });
 
+  describe("watchJob", () => {
+    function mockStatus(
+      status: string,
+      changedAt: string,
+      statements: Array<Record<string, unknown>>
+    ) {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          queryJobId: "job-123",
+          status,
+          actorType: "user",
+          statements,
+          createdAt: "2024-01-01T00:00:00Z",
+          changedAt,
+        }),
+      });
+    }
+
+    it("should yield job and statement transitions until terminal", async () => {
+      mockStatus("processing", "2024-01-01T00:00:01Z", [
+        {
+          id: "stmt-1",
+          query: "UPDATE t",
+          status: "processing",
+          executedAt: "2024-01-01T00:00:01Z",
+        },
+        { id: "stmt-2", query: "SELECT 1", status: "waiting" },
+      ]);
+      mockStatus("processing", "2024-01-01T00:00:01Z", [
+        {
+          id: "stmt-1",
+          query: "UPDATE t",
+          status: "completed",
+          rowsAffected: 5,
+          completedAt: "2024-01-01T00:00:02Z",
+        },
+        { id: "stmt-2", query: "SELECT 1", status: "waiting" },
+      ]);
+      mockStatus("failed", "2024-01-01T00:00:03Z", [
+        { id: "stmt-1", query: "UPDATE t", status: "completed" },
+        {
+          id: "stmt-2",
+          query: "SELECT 1",
+          status: "failed",
+          completedAt: "2024-01-01T00:00:03Z",
+        },
+      ]);
+
+      const events = [];
+      for await (const event of client.watchJob("job-123", {
+        pollIntervalStart: 1,
+      })) {
+        events.push(event);
+      }
+
+      expect(
+        events.map((e) =>
+          e.type === "job"
+            ? `job ${e.previous} -> ${e.current}`
+            : `${e.statement.id} ${e.previous} -> ${e.current}`
+        )
+      ).toEqual([
+        "job undefined -> processing",
+        "stmt-1 undefined -> processing",
+        "stmt-2 undefined -> waiting",
+        "stmt-1 processing -> completed",
+        "job processing -> failed",
+        "stmt-2 waiting -> failed",
+      ]);
+      expect(events[3]).toMatchObject({
+        index: 0,
+        rowsAffected: 5,
+        timestamp: new Date("2024-01-01T00:00:02Z"),
+      });
+      expect(events[4].timestamp).toEqual(new Date("2024-01-01T00:00:03Z"));
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("abort signals", () => {
+    const processing = {
+      status: 200,
+      json: async () => ({
+        queryJobId: "job-123",
+        status: "processing",
+        actorType: "user",
+        statements: [],
+        createdAt: "2024-01-01T00:00:00Z",
+        changedAt: "2024-01-01T00:00:01Z",
+      }),
+    };
+
+    it("should reject without a request when already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.submitJob({
+          branchId: "branch-1",
+          workspaceId: "ws-1",
+          statements: ["SELECT 1"],
+          signal: controller.signal,
+        })
+      ).rejects.toThrow(AbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should stop polling and cancel the job when aborted", async () => {
+      mockFetch.mockResolvedValueOnce(processing);
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+      const controller = new AbortController();
+
+      const promise = client.waitForJob({
+        queryJobId: "job-123",
+        pollIntervalStart: 10000,
+        signal: controller.signal,
+        cancelOnAbort: true,
+      });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(promise).rejects.toThrow(AbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        "https://query.keboola.com/api/v1/queries/job-123/cancel"
+      );
+    });
+
+    it("should abort an in-flight request", async () => {
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener("abort", () =>
+              reject(new Error("aborted"))
+            );
+          })
+      );
+      const controller = new AbortController();
+
+      const promise = client.getJobStatus("job-123", {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(AbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("executeQuery", () => {
     it("should submit, wait, and fetch results", async () => {
       // Submit job
@@ -263,7 +951,663 @@ describe("Client", () => {
       expect(results).toHaveLength(1);
       expect(results[0].data).toEqual([[1]]);
     });
-  });
+
+    it("should map rows through a row schema", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          queryJobId: "job-123",
+          status: "completed",
+          actorType: "user",
+          statements: [{ id: "stmt-1", query: "SELECT 1", status: "completed" }],
+          createdAt: "2024-01-01T00:00:00Z",
+          changedAt: "2024-01-01T00:00:01Z",
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          status: "completed",
+          columns: [{ name: "result", type: "NUMBER", nullable: false }],
+          data: [["1"]],
+        }),
+      });
+
+      const results = await client.executeQuery({
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        statements: ["SELECT 1"],
+        decode: true,
+        rowSchema: (row) => ({ result: row.result as number }),
+      });
+
+      expect(results[0].rows).toEqual([{ result: 1 }]);
+    });
+  });
+
+  describe("executeQuery settled", () => {
+    it("should return outcomes and results of completed statements", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          queryJobId: "job-123",
+          status: "failed",
+          actorType: "user",
+          statements: [
+            { id: "stmt-1", query: "SELECT 1", status: "completed" },
+            { id: "stmt-2", query: "SELECT x", status: "failed", error: "Bad" },
+            { id: "stmt-3", query: "SELECT 3", status: "notExecuted" },
+          ],
+          createdAt: "2024-01-01T00:00:00Z",
+          changedAt: "2024-01-01T00:00:01Z",
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          status: "completed",
+          columns: [{ name: "result", type: "integer", nullable: false }],
+          data: [[1]],
+        }),
+      });
+
+      const outcomes = await client.executeQuery({
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        statements: ["SELECT 1", "SELECT x", "SELECT 3"],
+        transactional: false,
+        settled: true,
+      });
+
+      expect(
+        outcomes.map(({ statement, status, result, error }) => ({
+          id: statement.id,
+          status,
+          data: result?.data,
+          error,
+        }))
+      ).toEqual([
+        { id: "stmt-1", status: "completed", data: [[1]], error: undefined },
+        { id: "stmt-2", status: "failed", data: undefined, error: "Bad" },
+        {
+          id: "stmt-3",
+          status: "notExecuted",
+          data: undefined,
+          error: undefined,
+        },
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("executeScript", () => {
+    it("should submit the split script and locate failed statements", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          queryJobId: "job-123",
+          status: "failed",
+          actorType: "user",
+          statements: [
+            { id: "stmt-1", query: "CREATE", status: "completed" },
+            { id: "stmt-2", query: "INSERT", status: "failed", error: "Bad" },
+          ],
+          createdAt: "2024-01-01T00:00:00Z",
+          changedAt: "2024-01-01T00:00:01Z",
+        }),
+      });
+
+      const error = await client
+        .executeScript({
+          branchId: "branch-1",
+          workspaceId: "ws-1",
+          script:
+            "-- Load orders\nCREATE TABLE orders (id INT);\n\n" +
+            "INSERT INTO orders\nVALUES (';');\n",
+        })
+        .catch((e) => e);
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.statements).toEqual([
+        "CREATE TABLE orders (id INT)",
+        "INSERT INTO orders\nVALUES (';')",
+      ]);
+      expect(error).toBeInstanceOf(JobError);
+      expect(error.failedStatements).toEqual([
+        { id: "stmt-2", error: "Bad", location: { startLine: 4, endLine: 5 } },
+      ]);
+    });
+
+    it("should reject empty scripts before any request", async () => {
+      for (const script of ["", "  \n", "-- nothing to do\n/* ; */;"]) {
+        await expect(
+          client.executeScript({
+            branchId: "branch-1",
+            workspaceId: "ws-1",
+            script,
+          })
+        ).rejects.toThrow(new ScriptSyntaxError("Script has no statements", 1));
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("executeQueryIncremental", () => {
+    function mockJob(calls: string[], statuses: string[][]) {
+      let poll = 0;
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+        const path = new URL(url).pathname;
+        calls.push(`${init.method} ${path}`);
+        if (init.method === "POST") {
+          return { status: 200, json: async () => ({ queryJobId: "job-1" }) };
+        }
+        if (path.endsWith("/results")) {
+          const statementId = path.split("/")[5];
+          return {
+            status: 200,
+            json: async () => ({
+              status: "completed",
+              columns: [],
+              data: [[statementId]],
+            }),
+          };
+        }
+        const states = statuses[Math.min(poll++, statuses.length - 1)];
+        const job = states.includes("failed")
+          ? "failed"
+          : states.every((state) => state === "completed")
+            ? "completed"
+            : "processing";
+        return {
+          status: 200,
+          json: async () => ({
+            queryJobId: "job-1",
+            status: job,
+            statements: states.map((status, i) => ({
+              id: `stmt-${i + 1}`,
+              query: `SELECT ${i + 1}`,
+              status,
+              error: status === "failed" ? "Boom" : undefined,
+            })),
+          }),
+        };
+      });
+    }
+
+    const options = {
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      statements: ["SELECT 1", "SELECT 2"],
+    };
+
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should yield each statement as soon as it completes", async () => {
+      const calls: string[] = [];
+      mockJob(calls, [
+        ["completed", "processing"],
+        ["completed", "completed"],
+      ]);
+
+      const yielded = [];
+      for await (const { index, result } of client.executeQueryIncremental(
+        options
+      )) {
+        const polls = calls.filter((c) => c === "GET /api/v1/queries/job-1");
+        yielded.push({ index, data: result.data, polls: polls.length });
+      }
+
+      expect(yielded).toEqual([
+        { index: 0, data: [["stmt-1"]], polls: 1 },
+        { index: 1, data: [["stmt-2"]], polls: 2 },
+      ]);
+    });
+
+    it("should yield completed statements before throwing JobError", async () => {
+      mockJob([], [["completed", "failed"]]);
+
+      const yielded: number[] = [];
+      const error = await (async () => {
+        for await (const { index } of client.executeQueryIncremental(options)) {
+          yielded.push(index);
+        }
+      })().catch((e) => e);
+
+      expect(yielded).toEqual([0]);
+      expect(error).toBeInstanceOf(JobError);
+      expect(error.failedStatements).toEqual([{ id: "stmt-2", error: "Boom" }]);
+    });
+  });
+
+  describe("executeBatch", () => {
+    const query = (sql: string) => ({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      statements: [sql],
+    });
+
+    // Job IDs follow the submitted SQL: "SELECT 'fail'" -> "job-fail"
+    function mockService(calls: string[]) {
+      mockFetch.mockImplementation(
+        async (url: string, init: { method: string; body?: string }) => {
+          const path = new URL(url).pathname;
+          calls.push(`${init.method} ${path}`);
+          if (path.endsWith("/cancel")) {
+            return { status: 200, json: async () => ({ queryJobId: "x" }) };
+          }
+          if (init.method === "POST") {
+            const [statement] = JSON.parse(init.body!).statements;
+            const name = /'(\w+)'/.exec(statement)![1];
+            return {
+              status: 200,
+              json: async () => ({ queryJobId: `job-${name}` }),
+            };
+          }
+          const jobId = path.split("/")[4];
+          if (path.endsWith("/results")) {
+            return {
+              status: 200,
+              json: async () => ({
+                status: "completed",
+                columns: [],
+                data: [[jobId]],
+              }),
+            };
+          }
+          const status =
+            jobId === "job-fail"
+              ? "failed"
+              : jobId === "job-slow"
+                ? "processing"
+                : "completed";
+          return {
+            status: 200,
+            json: async () => ({
+              queryJobId: jobId,
+              status,
+              statements: [
+                { id: "stmt-1", query: "SELECT", status, error: "Boom" },
+              ],
+            }),
+          };
+        }
+      );
+    }
+
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should settle every query in input order", async () => {
+      mockService([]);
+
+      const outcomes = await client.executeBatch(
+        [query("SELECT 'a'"), query("SELECT 'fail'"), query("SELECT 'b'")],
+        { concurrency: 2 }
+      );
+
+      expect(outcomes.map((o) => o.status)).toEqual([
+        "fulfilled",
+        "rejected",
+        "fulfilled",
+      ]);
+      expect(outcomes[0]).toMatchObject({ value: [{ data: [["job-a"]] }] });
+      expect(outcomes[2]).toMatchObject({ value: [{ data: [["job-b"]] }] });
+      const failed = outcomes[1] as { reason: JobError };
+      expect(failed.reason).toBeInstanceOf(JobError);
+      expect(failed.reason.jobId).toBe("job-fail");
+    });
+
+    it("should cancel outstanding jobs on failure with failFast", async () => {
+      const calls: string[] = [];
+      mockService(calls);
+
+      const outcomes = await client.executeBatch(
+        [query("SELECT 'slow'"), query("SELECT 'fail'"), query("SELECT 'c'")],
+        { concurrency: 2, failFast: true }
+      );
+
+      expect(outcomes[1]).toMatchObject({ status: "rejected" });
+      expect((outcomes[0] as { reason: Error }).reason).toBeInstanceOf(
+        AbortError
+      );
+      expect((outcomes[2] as { reason: Error }).reason).toBeInstanceOf(
+        AbortError
+      );
+      expect(calls).toContain("POST /api/v1/queries/job-slow/cancel");
+      expect(calls).not.toContain("GET /api/v1/queries/job-c");
+    });
+  });
+
+  describe("concurrency limits", () => {
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should queue jobs beyond maxConcurrentJobs until one finishes", async () => {
+      const calls: string[] = [];
+      let jobs = 0;
+      mockFetch.mockImplementation(
+        async (url: string, init: { method: string }) => {
+          const path = new URL(url).pathname;
+          calls.push(`${init.method} ${path}`);
+          if (init.method === "POST") {
+            return {
+              status: 200,
+              json: async () => ({ queryJobId: `job-${++jobs}` }),
+            };
+          }
+          if (path.endsWith("/results")) {
+            return {
+              status: 200,
+              json: async () => ({
+                status: "completed",
+                columns: [],
+                data: [],
+              }),
+            };
+          }
+          return {
+            status: 200,
+            json: async () => ({
+              queryJobId: path.split("/").pop(),
+              status: "completed",
+              statements: [
+                { id: "stmt-1", query: "SELECT 1", status: "completed" },
+              ],
+            }),
+          };
+        }
+      );
+      const limited = new Client({
+        baseUrl: "https://query.keboola.com",
+        token: "test-token",
+        maxConcurrentJobs: 1,
+      });
+      const options = {
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        statements: ["SELECT 1"],
+      };
+
+      const first = limited.executeQuery(options);
+      const second = limited.executeQuery(options);
+      expect(limited.getQueueStats().jobs).toEqual({
+        active: 1,
+        queued: 1,
+        limit: 1,
+      });
+      await Promise.all([first, second]);
+
+      expect(calls.indexOf("GET /api/v1/queries/job-1")).toBeLessThan(
+        calls.lastIndexOf(
+          "POST /api/v1/branches/branch-1/workspaces/ws-1/queries"
+        )
+      );
+      expect(limited.getQueueStats().jobs).toMatchObject({
+        active: 0,
+        queued: 0,
+      });
+    });
+
+    it("should limit HTTP requests and reject when the queue is full", async () => {
+      mockFetch.mockResolvedValue({
+        status: 200,
+        json: async () => ({
+          queryJobId: "job-1",
+          status: "processing",
+          statements: [],
+        }),
+      });
+      const limited = new Client({
+        baseUrl: "https://query.keboola.com",
+        token: "test-token",
+        maxConcurrentRequests: 1,
+        maxQueueLength: 1,
+      });
+
+      const first = limited.getJobStatus("job-1");
+      const second = limited.getJobStatus("job-2");
+      const third = limited.getJobStatus("job-3").catch((e) => e);
+      expect(limited.getQueueStats().requests).toEqual({
+        active: 1,
+        queued: 1,
+        limit: 1,
+      });
+
+      expect(await third).toBeInstanceOf(QueueLimitError);
+      await Promise.all([first, second]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("hooks and tracing", () => {
+    function mockJob() {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ queryJobId: "job-123" }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          queryJobId: "job-123",
+          status: "processing",
+          actorType: "user",
+          statements: [
+            { id: "stmt-1", query: "SELECT 1", status: "completed" },
+            { id: "stmt-2", query: "SELECT 2", status: "processing" },
+          ],
+          createdAt: "2024-01-01T00:00:00Z",
+          changedAt: "2024-01-01T00:00:01Z",
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          queryJobId: "job-123",
+          status: "completed",
+          actorType: "user",
+          statements: [
+            { id: "stmt-1", query: "SELECT 1", status: "completed" },
+            { id: "stmt-2", query: "SELECT 2", status: "completed" },
+          ],
+          createdAt: "2024-01-01T00:00:00Z",
+          changedAt: "2024-01-01T00:00:01Z",
+        }),
+      });
+      for (let i = 0; i < 2; i++) {
+        mockFetch.mockResolvedValueOnce({
+          status: 200,
+          json: async () => ({
+            status: "completed",
+            columns: [{ name: "n", type: "integer", nullable: false }],
+            data: [[1], [2]],
+          }),
+        });
+      }
+    }
+
+    const options = {
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      statements: ["SELECT 1", "SELECT 2"],
+    };
+
+    it("should emit lifecycle events", async () => {
+      mockJob();
+      const events: string[] = [];
+      const remove = client.addHooks({
+        onRequest: (e) => events.push(`request ${e.method}`),
+        onResponse: (e) => events.push(`response ${e.status}`),
+        onPoll: (e) => events.push(`poll ${e.iteration} ${e.status}`),
+        onJobStateChange: (e) =>
+          events.push(`job ${e.previous ?? "-"} -> ${e.current}`),
+        onStatementComplete: (e) => events.push(`statement ${e.statement.id}`),
+      });
+
+      await client.executeQuery(options);
+      remove();
+      await client.getJobStatus("job-123").catch(() => undefined);
+
+      expect(events).toEqual([
+        "request POST",
+        "response 200",
+        "request GET",
+        "response 200",
+        "poll 0 processing",
+        "job - -> processing",
+        "statement stmt-1",
+        "request GET",
+        "response 200",
+        "poll 1 completed",
+        "job processing -> completed",
+        "statement stmt-2",
+        "request GET",
+        "response 200",
+        "request GET",
+        "response 200",
+      ]);
+    });
+
+    it("should emit retries and ignore failing hooks", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 503,
+        text: async () => "Unavailable",
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ statements: [] }),
+      });
+      const onRetry = vi.fn();
+      client.addHooks({
+        onRequest: () => {
+          throw new Error("broken hook");
+        },
+        onRetry,
+      });
+
+      await client.getQueryHistory({ branchId: "branch-1", workspaceId: "ws-1" });
+
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 0, status: 503 })
+      );
+    });
+
+    it("should pass hooks a redacted, read-only copy of the headers", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({ statements: [] }),
+      });
+      mockFetch.mockResolvedValueOnce(
+        new Response('{"id":1}\n', { status: 200 })
+      );
+      const seen: Array<Readonly<Record<string, string>>> = [];
+      client.addHooks({
+        onRequest: (e) => {
+          seen.push(e.headers);
+          (e.headers as Record<string, string>)["X-Injected"] = "1";
+        },
+      });
+
+      await client.getQueryHistory({ branchId: "branch-1", workspaceId: "ws-1" });
+      for await (const row of client.streamResults("job-123", "stmt-1")) {
+        expect(row).toEqual({ id: 1 });
+      }
+
+      expect(seen).toHaveLength(2);
+      for (const [index, headers] of seen.entries()) {
+        expect(headers["X-StorageAPI-Token"]).toBe("[REDACTED]");
+        expect(Object.isFrozen(headers)).toBe(true);
+        const sent = mockFetch.mock.calls[index][1].headers;
+        expect(sent["X-StorageAPI-Token"]).toBe("test-token");
+        expect(sent["X-Injected"]).toBeUndefined();
+      }
+    });
+
+    it("should create spans for executeQuery and its HTTP calls", async () => {
+      mockJob();
+      const spans: Array<{
+        name: string;
+        parent?: string;
+        attributes: Record<string, unknown>;
+        ended: boolean;
+      }> = [];
+      const stack: string[] = [];
+      const tracer = {
+        startActiveSpan: (
+          name: string,
+          options: { attributes?: Record<string, unknown> },
+          fn: (span: unknown) => unknown
+        ) => {
+          const record = {
+            name,
+            parent: stack[stack.length - 1],
+            attributes: { ...options.attributes },
+            ended: false,
+          };
+          spans.push(record);
+          stack.push(name);
+          const span = {
+            setAttribute: (key: string, value: unknown) => {
+              record.attributes[key] = value;
+            },
+            setStatus: () => undefined,
+            recordException: () => undefined,
+            end: () => {
+              record.ended = true;
+              stack.splice(stack.lastIndexOf(name), 1);
+            },
+          };
+          return fn(span);
+        },
+      };
+      const c = new Client({
+        baseUrl: "https://query.keboola.com",
+        token: "test",
+        tracer: tracer as never,
+      });
+
+      await c.executeQuery(options);
+
+      expect(spans[0]).toMatchObject({
+        name: "keboola.executeQuery",
+        parent: undefined,
+        ended: true,
+        attributes: {
+          "keboola.branch_id": "branch-1",
+          "keboola.workspace_id": "ws-1",
+          "keboola.statement_count": 2,
+          "keboola.query_job_id": "job-123",
+          "keboola.row_count": 4,
+        },
+      });
+      expect(spans.slice(1).map((span) => span.name)).toEqual([
+        "HTTP POST",
+        "HTTP GET",
+        "HTTP GET",
+        "HTTP GET",
+        "HTTP GET",
+      ]);
+      expect(
+        spans.slice(1).every((span) => span.parent === "keboola.executeQuery")
+      ).toBe(true);
+      expect(spans[1].attributes["http.response.status_code"]).toBe(200);
+    });
+  });
 
   describe("cancelJob", () => {
     it("should cancel a job", async () => {
@@ -301,4 +1645,249 @@ describe("Client", () => {
       expect(history.statements).toHaveLength(1);
     });
   });
+
+  describe("iterateQueryHistory", () => {
+    const historyStatement = (id: number, createdAt: string) => ({
+      id: `stmt-${id}`,
+      query: `SELECT ${id}`,
+      status: id % 2 === 0 ? "completed" : "failed",
+      queryJobId: `job-${id}`,
+      createdAt,
+    });
+
+    it("should follow afterId and filter statements", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          statements: [
+            historyStatement(4, "2024-03-04T00:00:00Z"),
+            historyStatement(3, "2024-03-03T00:00:00Z"),
+          ],
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          statements: [historyStatement(2, "2024-03-02T00:00:00Z")],
+        }),
+      });
+
+      const ids = [];
+      for await (const statement of client.iterateQueryHistory({
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        pageSize: 2,
+        status: "completed",
+      })) {
+        ids.push(statement.id);
+      }
+
+      expect(ids).toEqual(["stmt-4", "stmt-2"]);
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        "https://query.keboola.com/api/v1/branches/branch-1/workspaces/ws-1/queries?pageSize=2&afterId=stmt-3"
+      );
+    });
+
+    it("should stop once statements are older than createdAt.from", async () => {
+      mockFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          statements: [
+            historyStatement(4, "2024-03-04T00:00:00Z"),
+            historyStatement(3, "2024-03-03T00:00:00Z"),
+          ],
+        }),
+      });
+
+      const ids = [];
+      for await (const statement of client.iterateQueryHistory({
+        branchId: "branch-1",
+        workspaceId: "ws-1",
+        pageSize: 2,
+        createdAt: { from: "2024-03-03T12:00:00Z" },
+      })) {
+        ids.push(statement.id);
+      }
+
+      expect(ids).toEqual(["stmt-4"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("openResultsStream", () => {
+    afterEach(() => mockFetch.mockReset());
+
+    const text = async (stream: ReadableStream<Uint8Array>) =>
+      new Response(stream).text();
+
+    it("should pass the raw NDJSON bytes through", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('{"id":1}\n{"id":2}\n', { status: 200 })
+      );
+
+      const stream = await client.openResultsStream("job-123", "stmt-1");
+
+      expect(await text(stream)).toBe('{"id":1}\n{"id":2}\n');
+      expect(client.getQueueStats().requests.active).toBe(0);
+    });
+
+    it("should stream parsed rows", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('{"id":1}\n{"id":2}', { status: 200 })
+      );
+
+      const stream = await client.openResultsStream("job-123", "stmt-1", {
+        format: "rows",
+      });
+      const rows = [];
+      for await (const row of stream) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it("should reject on error responses before streaming", async () => {
+      mockFetch.mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ exception: "Job not found" }), {
+            status: 404,
+          })
+      );
+
+      await expect(
+        client.openResultsStream("job-123", "stmt-1")
+      ).rejects.toThrow("Job not found");
+      await expect(
+        client.openResultsStream("job-123", "stmt-1", { format: "rows" })
+      ).rejects.toThrow("Job not found");
+      expect(client.getQueueStats().requests.active).toBe(0);
+    });
+
+    it.each(["ndjson", "rows"] as const)(
+      "should abort the request when a %s stream is canceled",
+      async (format) => {
+        let fetchSignal: AbortSignal | undefined;
+        mockFetch.mockImplementationOnce(
+          async (_url: string, init: RequestInit) => {
+            fetchSignal = init.signal!;
+            // Like fetch, aborting errors the pending body read
+            const body = new ReadableStream<Uint8Array>({
+              start: (controller) => {
+                controller.enqueue(new TextEncoder().encode('{"id":1}\n'));
+                fetchSignal!.addEventListener("abort", () =>
+                  controller.error(new Error("aborted"))
+                );
+              },
+            });
+            return new Response(body, { status: 200 });
+          }
+        );
+
+        const stream = await client.openResultsStream("job-123", "stmt-1", {
+          format,
+        });
+        const reader = (stream as ReadableStream<unknown>).getReader();
+        await reader.read();
+        await reader.cancel();
+
+        expect(fetchSignal!.aborted).toBe(true);
+        expect(client.getQueueStats().requests.active).toBe(0);
+      }
+    );
+  });
+
+  describe("streamResults resume", () => {
+    afterEach(() => mockFetch.mockReset());
+
+    const encoder = new TextEncoder();
+    const remainingRows = {
+      status: 200,
+      json: async () => ({
+        status: "completed",
+        columns: [{ name: "id", type: "integer", nullable: false }],
+        data: [[3], [4]],
+        numberOfRows: 4,
+      }),
+    };
+
+    it("should continue from the last delivered row after a failure", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start: (controller) =>
+              controller.enqueue(encoder.encode('{"id":1}\n{"id":2}\n{"i')),
+            // Fails once the first chunk has been read
+            pull: (controller) => controller.error(new TypeError("terminated")),
+          }),
+          { status: 200 }
+        )
+      );
+      mockFetch.mockResolvedValueOnce(remainingRows);
+
+      const rows = [];
+      for await (const row of client.streamResults("job-123", "stmt-1")) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }]);
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        "https://query.keboola.com/api/v1/queries/job-123/stmt-1/results?offset=2&pageSize=500"
+      );
+    });
+
+    it("should time out a stalled stream", async () => {
+      const stalled = () =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start: (controller) =>
+              controller.enqueue(encoder.encode('{"id":1}\n{"id":2}\n')),
+          }),
+          { status: 200 }
+        );
+      mockFetch.mockResolvedValueOnce(stalled());
+
+      const rows = [];
+      const error = await (async () => {
+        for await (const row of client.streamResults("job-123", "stmt-1", {
+          idleTimeout: 20,
+          resume: false,
+        })) {
+          rows.push(row);
+        }
+      })().catch((error: unknown) => error);
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(error).toBeInstanceOf(StreamTimeoutError);
+      expect(client.getQueueStats().requests.active).toBe(0);
+
+      mockFetch.mockResolvedValueOnce(stalled());
+      mockFetch.mockResolvedValueOnce(remainingRows);
+      const resumed = [];
+      for await (const row of client.streamResults("job-123", "stmt-1", {
+        idleTimeout: 20,
+      })) {
+        resumed.push(row);
+      }
+      expect(resumed).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }]);
+    });
+
+    it("should report the line number of a malformed line", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('{"id":1}\n\n{"id":\n', { status: 200 })
+      );
+
+      const rows = [];
+      const error = await (async () => {
+        for await (const row of client.streamResults("job-123", "stmt-1")) {
+          rows.push(row);
+        }
+      })().catch((error: unknown) => error);
+
+      expect(rows).toEqual([{ id: 1 }]);
+      expect(error).toBeInstanceOf(MalformedResultError);
+      expect((error as MalformedResultError).lineNumber).toBe(3);
+      expect((error as MalformedResultError).line).toBe('{"id":');
+    });
+  });
 });
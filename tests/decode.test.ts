@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeRecord,
+  decodeResult,
+  decodeValue,
+  normalizeType,
+} from "../src/decode";
+import type { Column } from "../src/types";
+
+function column(type: string): Column {
+  return { name: "value", type, nullable: true };
+}
+
+describe("normalizeType", () => {
+  it("should strip parameters and element types", () => {
+    expect(normalizeType("NUMBER(38,0)")).toBe("NUMBER");
+    expect(normalizeType("timestamp_ntz(9)")).toBe("TIMESTAMP_NTZ");
+    expect(normalizeType("ARRAY<INT64>")).toBe("ARRAY");
+  });
+});
+
+describe("decodeValue", () => {
+  it("should decode null regardless of type", () => {
+    expect(decodeValue(null, column("NUMBER"))).toBeNull();
+    expect(decodeValue(undefined, column("VARIANT"))).toBeNull();
+  });
+
+  it("should decode integers as number or bigint", () => {
+    expect(decodeValue("42", column("NUMBER(38,0)"))).toBe(42);
+    expect(decodeValue("9007199254740993", column("NUMBER(38,0)"))).toBe(
+      9007199254740993n
+    );
+    expect(
+      decodeValue("42", column("INT64"), { integers: "bigint" })
+    ).toBe(42n);
+    expect(
+      decodeValue("9007199254740993", column("INTEGER"), { integers: "number" })
+    ).toBe(9007199254740992);
+  });
+
+  it("should decode decimals as number or string", () => {
+    expect(decodeValue("12.50", column("NUMBER(10,2)"))).toBe(12.5);
+    expect(decodeValue("12", column("NUMBER(10,2)"))).toBe(12);
+    expect(
+      decodeValue("12.50", column("NUMERIC"), { decimals: "string" })
+    ).toBe("12.50");
+    expect(decodeValue("-inf", column("FLOAT64"))).toBe(-Infinity);
+  });
+
+  it("should decode booleans", () => {
+    expect(decodeValue("true", column("BOOLEAN"))).toBe(true);
+    expect(decodeValue("0", column("BOOL"))).toBe(false);
+  });
+
+  it("should decode dates and timestamps", () => {
+    expect(decodeValue("2024-03-01", column("DATE"))).toEqual(
+      new Date("2024-03-01T00:00:00Z")
+    );
+    expect(decodeValue(19783, column("DATE"))).toEqual(
+      new Date("2024-03-01T00:00:00Z")
+    );
+    expect(
+      decodeValue("2024-03-01 12:30:00.123456", column("TIMESTAMP_NTZ(9)"))
+    ).toEqual(new Date("2024-03-01T12:30:00.123Z"));
+    expect(
+      decodeValue("2024-03-01 12:30:00.000 +0200", column("TIMESTAMP_TZ"))
+    ).toEqual(new Date("2024-03-01T10:30:00Z"));
+    expect(
+      decodeValue("2024-03-01 12:30:00 UTC", column("TIMESTAMP"))
+    ).toEqual(new Date("2024-03-01T12:30:00Z"));
+    expect(decodeValue("1709296200.000000000", column("TIMESTAMP_LTZ"))).toEqual(
+      new Date("2024-03-01T12:30:00Z")
+    );
+  });
+
+  it("should return ISO strings when dates is 'string'", () => {
+    expect(
+      decodeValue("2024-03-01 12:30:00", column("DATETIME"), { dates: "string" })
+    ).toBe("2024-03-01T12:30:00.000Z");
+    expect(
+      decodeValue("2024-03-01", column("DATE"), { dates: "string" })
+    ).toBe("2024-03-01");
+  });
+
+  it("should parse semi-structured values as JSON", () => {
+    expect(decodeValue('{"a": [1, 2]}', column("VARIANT"))).toEqual({
+      a: [1, 2],
+    });
+    expect(decodeValue("[1,2]", column("ARRAY<INT64>"))).toEqual([1, 2]);
+    expect(decodeValue("not json", column("OBJECT"))).toBe("not json");
+  });
+
+  it("should decode binary values", () => {
+    expect(decodeValue("AQI=", column("BYTES"))).toEqual(
+      new Uint8Array([1, 2])
+    );
+    expect(decodeValue("0102", column("BINARY"))).toEqual(
+      new Uint8Array([1, 2])
+    );
+     expect(decodeValue("@@@", column("BYTES"))).toBe("@@@");
+    expect(decodeValue("0x01", column("BINARY"))).toBe("0x01");
+  });
+
+  it("should leave unknown types untouched", () => {
+    expect(decodeValue("hello", column("VARCHAR(16777216)"))).toBe("hello");
+  });
+
+  it("should prefer custom codecs", () => {
+    const codecs = { variant: (value: unknown) => `custom:${value}` };
+    expect(decodeValue("{}", column("VARIANT"), { codecs })).toBe("custom:{}");
+  });
+});
+
+describe("decodeResult", () => {
+  it("should decode every row", () => {
+    const result = decodeResult({
+      status: "completed",
+      columns: [
+        { name: "id", type: "NUMBER(38,0)", nullable: false },
+        { name: "active", type: "BOOLEAN", nullable: true },
+      ],
+      data: [
+        ["1", "true"],
+        ["2", null],
+      ],
+    });
+
+    expect(result.data).toEqual([
+      [1, true],
+      [2, null],
+    ]);
+  });
+});
+
+describe("decodeRecord", () => {
+  it("should decode by column name and keep unknown keys", () => {
+    const record = decodeRecord({ id: "7", extra: "x" }, [
+      { name: "id", type: "NUMBER", nullable: false },
+    ]);
+    expect(record).toEqual({ id: 7, extra: "x" });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import { EventEmitter } from "node:events";
+import { createWriteStream } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { exportRecords, exportResults } from "../src/export";
+import { AbortError } from "../src/errors";
+import type { QueryResult } from "../src/types";
+
+/** Node.js Writable stand-in that signals backpressure on every write */
+class SlowWritable extends EventEmitter {
+  chunks: string[] = [];
+  ended = false;
+  drains = 0;
+
+  write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    setTimeout(() => {
+      this.drains++;
+      this.emit("drain");
+    }, 1);
+    return false;
+  }
+
+  end(): void {
+    this.ended = true;
+    setTimeout(() => this.emit("finish"), 1);
+  }
+
+  get text(): string {
+    return this.chunks.join("");
+  }
+}
+
+const result: QueryResult = {
+  status: "completed",
+  columns: [
+    { name: "id", type: "NUMBER", nullable: false },
+    { name: "name", type: "VARCHAR", nullable: true },
+  ],
+  data: [
+    [1, 'say "hi"'],
+    [2, "a,b"],
+    [3, "line\nbreak"],
+    [4, null],
+    [5, ""],
+  ],
+};
+
+describe("exportResults", () => {
+  it("should write RFC 4180 CSV", async () => {
+    const out = new SlowWritable();
+
+    const rows = await exportResults(result, out, { format: "csv" });
+
+    expect(rows).toBe(5);
+    expect(out.text).toBe(
+      'id,name\r\n1,"say ""hi"""\r\n2,"a,b"\r\n3,"line\nbreak"\r\n4,\r\n5,""\r\n'
+    );
+    expect(out.ended).toBe(true);
+  });
+
+  it("should write TSV with custom null and line ending", async () => {
+    const out = new SlowWritable();
+
+    await exportResults(result, out, {
+      format: "tsv",
+      nullValue: "\\N",
+      lineEnding: "\n",
+      header: false,
+      end: false,
+    });
+
+    expect(out.text.split("\n").slice(3, 6)).toEqual([
+      'break"',
+      "4\t\\N",
+      "5\t",
+    ]);
+    expect(out.ended).toBe(false);
+  });
+
+  it("should write NDJSON from paginated results", async () => {
+    async function* pages(): AsyncGenerator<QueryResult> {
+      yield { ...result, data: [[1n, new Date("2024-03-01T00:00:00Z")]] };
+      yield { ...result, data: [[2, new Uint8Array([1, 2])]] };
+    }
+    const out = new SlowWritable();
+
+    await exportResults(pages(), out, { format: "ndjson" });
+
+    expect(out.text).toBe(
+      '{"id":"1","name":"2024-03-01T00:00:00.000Z"}\n{"id":2,"name":"AQI="}\n'
+    );
+  });
+
+  it("should select and order columns", async () => {
+    const out = new SlowWritable();
+
+    await exportResults(result, out, {
+      format: "csv",
+      columns: ["name", "id"],
+      lineEnding: "\n",
+    });
+
+    expect(out.text.split("\n").slice(0, 2)).toEqual([
+      "name,id",
+      '"say ""hi""",1',
+    ]);
+  });
+
+  it("should wait for a Node.js stream to drain", async () => {
+    const big: QueryResult = {
+      ...result,
+      data: Array.from({ length: 20000 }, (_, i) => [i, "x".repeat(10)]),
+    };
+    const out = new SlowWritable();
+
+    await exportResults(big, out, { format: "csv" });
+
+    expect(out.chunks.length).toBeGreaterThan(1);
+    expect(out.drains).toBe(out.chunks.length);
+    expect(out.text.split("\r\n")).toHaveLength(20002);
+  });
+
+  it("should write to a Web WritableStream", async () => {
+    const chunks: Uint8Array[] = [];
+    const stream = new WritableStream<Uint8Array>(
+      { write: (chunk) => void chunks.push(chunk) },
+      { highWaterMark: 1 }
+    );
+
+    await exportResults(result, stream, { format: "ndjson" });
+
+    const text = new TextDecoder().decode(Buffer.concat(chunks));
+    expect(text.split("\n")[0]).toBe('{"id":1,"name":"say \\"hi\\""}');
+    expect(stream.locked).toBe(false);
+  });
+
+  it("should resolve once a file is flushed", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "kbc-export-"));
+    try {
+      const file = createWriteStream(join(dir, "out.csv"));
+
+      await exportResults(result, file, { format: "csv" });
+
+      expect(file.writableFinished).toBe(true);
+      expect(await readFile(join(dir, "out.csv"), "utf8")).toMatch(
+        /^id,name\r\n1,"say ""hi"""\r\n/
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject when the destination fails", async () => {
+    const file = createWriteStream(join(tmpdir(), "kbc-missing", "out.csv"));
+
+    await expect(
+      exportResults(result, file, { format: "csv" })
+    ).rejects.toMatchObject({ code: "ENOENT" });
+  });
+
+  it("should stop when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      exportResults(result, new SlowWritable(), {
+        format: "csv",
+        signal: controller.signal,
+      })
+    ).rejects.toThrow(AbortError);
+  });
+});
+
+describe("exportRecords", () => {
+  it("should take columns from the first record", async () => {
+    async function* records() {
+      yield { id: 1, tags: ["a", "b"] };
+      yield { id: 2, tags: null, extra: true };
+    }
+    const out = new SlowWritable();
+
+    const rows = await exportRecords(records(), out, {
+      format: "csv",
+      lineEnding: "\n",
+    });
+
+    expect(rows).toBe(2);
+    expect(out.text).toBe('id,tags\n1,"[""a"",""b""]"\n2,\n');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { isPastHistoryFilter, matchesHistoryFilter } from "../src/history";
+import type { StatementWithWorkspaceInfo } from "../src/types";
+
+const statement: StatementWithWorkspaceInfo = {
+  id: "stmt-1",
+  queryJobId: "job-1",
+  query: "SELECT * FROM orders",
+  status: "completed",
+  warehouse: "SMALL_WH",
+  backendSize: "small",
+  createdAt: "2024-03-01T10:00:00Z",
+  completedAt: "2024-03-01T10:05:00Z",
+};
+
+describe("matchesHistoryFilter", () => {
+  it("should match everything with an empty filter", () => {
+    expect(matchesHistoryFilter(statement, {})).toBe(true);
+  });
+
+  it("should match single values and lists", () => {
+    expect(matchesHistoryFilter(statement, { status: "completed" })).toBe(true);
+    expect(
+      matchesHistoryFilter(statement, { status: ["failed", "canceled"] })
+    ).toBe(false);
+    expect(
+      matchesHistoryFilter(statement, { warehouse: ["SMALL_WH", "LARGE_WH"] })
+    ).toBe(true);
+    expect(matchesHistoryFilter(statement, { backendSize: "large" })).toBe(
+      false
+    );
+    expect(matchesHistoryFilter(statement, { queryJobId: "job-2" })).toBe(
+      false
+    );
+  });
+
+  it("should match date ranges with an exclusive upper bound", () => {
+    expect(
+      matchesHistoryFilter(statement, {
+        createdAt: { from: "2024-03-01T10:00:00Z", to: "2024-03-02" },
+      })
+    ).toBe(true);
+    expect(
+      matchesHistoryFilter(statement, {
+        completedAt: { to: new Date("2024-03-01T10:05:00Z") },
+      })
+    ).toBe(false);
+    expect(
+      matchesHistoryFilter(
+        { ...statement, completedAt: undefined },
+        { completedAt: { from: "2024-01-01" } }
+      )
+    ).toBe(false);
+  });
+
+  it("should match SQL by substring or regular expression", () => {
+    expect(matchesHistoryFilter(statement, { query: "FROM orders" })).toBe(
+      true
+    );
+    expect(matchesHistoryFilter(statement, { query: "from orders" })).toBe(
+      false
+    );
+    const pattern = /from orders/gi;
+    expect(matchesHistoryFilter(statement, { query: pattern })).toBe(true);
+    expect(matchesHistoryFilter(statement, { query: pattern })).toBe(true);
+  });
+
+  it("should reject invalid filter dates", () => {
+    expect(() =>
+      matchesHistoryFilter(statement, { createdAt: { from: "yesterday" } })
+    ).toThrow(TypeError);
+  });
+});
+
+describe("isPastHistoryFilter", () => {
+  it("should detect statements created before the lower bound", () => {
+    expect(
+      isPastHistoryFilter(statement, { createdAt: { from: "2024-03-02" } })
+    ).toBe(true);
+    expect(
+      isPastHistoryFilter(statement, { createdAt: { from: "2024-03-01" } })
+    ).toBe(false);
+    expect(isPastHistoryFilter(statement, {})).toBe(false);
+  });
+});
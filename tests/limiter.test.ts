@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ConcurrencyLimiter } from "../src/limiter";
+import { AbortError, QueueLimitError } from "../src/errors";
+
+describe("ConcurrencyLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should grant slots up to the limit and queue the rest", async () => {
+    const limiter = new ConcurrencyLimiter("jobs", { limit: 2 });
+    const first = await limiter.acquire();
+    await limiter.acquire();
+    const third = limiter.acquire();
+
+    expect(limiter.stats()).toEqual({ active: 2, queued: 1, limit: 2 });
+
+    first();
+    first();
+    await third;
+    expect(limiter.stats()).toEqual({ active: 2, queued: 0, limit: 2 });
+  });
+
+  it("should serve higher priority first, then in arrival order", async () => {
+    const limiter = new ConcurrencyLimiter("jobs", { limit: 1 });
+    const release = await limiter.acquire();
+    const order: string[] = [];
+
+    const waiting = [
+      limiter.acquire().then((r) => (order.push("a"), r())),
+      limiter.acquire({ priority: 5 }).then((r) => (order.push("b"), r())),
+      limiter.acquire().then((r) => (order.push("c"), r())),
+      limiter.acquire({ priority: 5 }).then((r) => (order.push("d"), r())),
+    ];
+    release();
+    await Promise.all(waiting);
+
+    expect(order).toEqual(["b", "d", "a", "c"]);
+    expect(limiter.stats().active).toBe(0);
+  });
+
+  it("should reject when the queue is full", async () => {
+    const limiter = new ConcurrencyLimiter("requests", {
+      limit: 1,
+      maxQueueLength: 1,
+    });
+    await limiter.acquire();
+    void limiter.acquire();
+
+    const error = await limiter.acquire().catch((e) => e);
+    expect(error).toBeInstanceOf(QueueLimitError);
+    expect(error).toMatchObject({ queue: "requests", reason: "length" });
+  });
+
+  it("should reject after waiting too long", async () => {
+    vi.useFakeTimers();
+    const limiter = new ConcurrencyLimiter("jobs", {
+      limit: 1,
+      maxQueueWaitTime: 1000,
+    });
+    await limiter.acquire();
+
+    const waiting = limiter.acquire().catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await waiting).toMatchObject({ queue: "jobs", reason: "waitTime" });
+    expect(limiter.stats().queued).toBe(0);
+  });
+
+  it("should leave the queue when aborted", async () => {
+    const limiter = new ConcurrencyLimiter("jobs", { limit: 1 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+
+    const waiting = limiter
+      .acquire({ signal: controller.signal })
+      .catch((e) => e);
+    controller.abort();
+
+    expect(await waiting).toBeInstanceOf(AbortError);
+    release();
+    expect(limiter.stats()).toEqual({ active: 0, queued: 0, limit: 1 });
+  });
+});
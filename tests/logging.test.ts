@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Client } from "../src/client";
+import { formatSql, redactHeaders, redactSecrets } from "../src/logging";
+import type { Logger } from "../src/types";
+
+const TOKEN = "1234-56789-abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMN";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function recordingLogger() {
+  const entries: Array<{
+    level: string;
+    message: string;
+    context: Record<string, unknown>;
+  }> = [];
+  const log =
+    (level: string) => (context: Record<string, unknown>, message: string) =>
+      entries.push({ level, message, context });
+  const logger: Logger = {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+  return { logger, entries };
+}
+
+describe("redaction", () => {
+  it("should redact the token header", () => {
+    expect(
+      redactHeaders({ "X-StorageAPI-Token": TOKEN, Accept: "application/json" })
+    ).toEqual({
+      "X-StorageAPI-Token": "[REDACTED]",
+      Accept: "application/json",
+    });
+  });
+
+  it("should redact token-looking strings and secret keys deeply", () => {
+    expect(
+      redactSecrets({
+        message: `Token ${TOKEN} is invalid`,
+        nested: [{ password: "hunter2", id: 5 }],
+      })
+    ).toEqual({
+      message: "Token [REDACTED] is invalid",
+      nested: [{ password: "[REDACTED]", id: 5 }],
+    });
+  });
+});
+
+describe("formatSql", () => {
+  const sql = `SELECT '${"x".repeat(300)}'`;
+
+  it("should log SQL according to the mode", () => {
+    expect(formatSql("SELECT 1", "full")).toBe("SELECT 1");
+    expect(formatSql(sql, "truncated")).toMatch(
+      /^SELECT 'x+\.\.\. \(309 chars\)$/
+    );
+    expect(formatSql("SELECT 1", "hashed")).toMatch(/^fnv1a:[0-9a-f]{8}$/);
+    expect(formatSql("SELECT 1", "hashed")).toBe(
+      formatSql("SELECT 1", "hashed")
+    );
+    expect(formatSql("SELECT 1", "none")).toBeUndefined();
+  });
+});
+
+describe("Client logging", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should log requests and submitted jobs without the token", async () => {
+    const { logger, entries } = recordingLogger();
+    const client = new Client({
+      baseUrl: "https://query.keboola.com",
+      token: TOKEN,
+      logger,
+      logLevel: "debug",
+      logSql: "full",
+    });
+    mockFetch.mockResolvedValueOnce({
+      status: 200,
+      json: async () => ({ queryJobId: "job-123" }),
+    });
+
+    await client.submitJob({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      statements: ["SELECT 1"],
+    });
+
+    expect(entries.map((e) => `${e.level} ${e.message}`)).toEqual([
+      "debug HTTP request",
+      "debug HTTP response",
+      "info Job submitted",
+    ]);
+    expect(entries[2].context).toMatchObject({
+      queryJobId: "job-123",
+      statements: ["SELECT 1"],
+    });
+    expect(JSON.stringify(entries)).not.toContain(TOKEN);
+  });
+
+  it("should filter by level and redact error context", async () => {
+    const { logger, entries } = recordingLogger();
+    const client = new Client({
+      baseUrl: "https://query.keboola.com",
+      token: TOKEN,
+      logger,
+      logLevel: "warn",
+    });
+    mockFetch.mockResolvedValueOnce({
+      status: 401,
+      text: async () =>
+        JSON.stringify({
+          exception: "Invalid token",
+          context: { token: TOKEN, hint: `used ${TOKEN}` },
+        }),
+    });
+
+    await client.getJobStatus("job-123").catch(() => undefined);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      level: "warn",
+      message: "HTTP request failed",
+      context: {
+        status: 401,
+        context: { token: "[REDACTED]", hint: "used [REDACTED]" },
+      },
+    });
+  });
+});
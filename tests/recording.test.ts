@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "../src/client";
+import { UnmatchedRequestError } from "../src/errors";
+import { TrafficRecorder, TrafficReplayer } from "../src/recording";
+import { FakeQueryService } from "../src/testing";
+import type { TrafficFixture } from "../src/types";
+
+const scope = { branchId: "branch-1", workspaceId: "ws-1" };
+const query = "SELECT id, email FROM customers";
+
+/** Record a session against the fake service */
+async function record(recorder: TrafficRecorder): Promise<TrafficFixture> {
+  const service = new FakeQueryService({
+    handler: () => ({
+      columns: ["id", "email"],
+      rows: [
+        [1, "alice@example.com"],
+        [2, "bob@example.com"],
+      ],
+    }),
+    statementDuration: 150,
+  });
+  const client = new Client({
+    baseUrl: "https://query.keboola.com",
+    token: "secret-token",
+    fetch: service.fetch,
+    middleware: [recorder.middleware],
+  });
+
+  const queryJobId = await client.submitJob({ ...scope, statements: [query] });
+  const status = await client.waitForJob({ queryJobId });
+  await client.getJobResults({
+    queryJobId,
+    statementId: status.statements[0].id,
+  });
+  return recorder.toFixture();
+}
+
+function replayClient(replayer: TrafficReplayer): Client {
+  return new Client({
+    baseUrl: "https://query.keboola.com",
+    token: "another-token",
+    fetch: replayer.fetch,
+    sleep: replayer.sleep,
+  });
+}
+
+describe("TrafficRecorder", () => {
+  it("should strip the token and redact SQL and values", async () => {
+    const fixture = await record(
+      new TrafficRecorder({ sql: "hashed", redactValue: () => null })
+    );
+    const serialized = JSON.stringify(fixture);
+
+    expect(serialized).not.toContain("secret-token");
+    expect(serialized).not.toContain(query);
+    expect(serialized).not.toContain("alice@example.com");
+    expect(fixture.sql).toBe("hashed");
+
+    const [submit] = fixture.exchanges;
+    expect(submit.request).toMatchObject({
+      method: "POST",
+      path: "/api/v1/branches/branch-1/workspaces/ws-1/queries",
+      body: { statements: [expect.stringMatching(/^fnv1a:[0-9a-f]{8}$/)] },
+    });
+    const results = fixture.exchanges[fixture.exchanges.length - 1];
+    expect(results.request.query).toEqual({ offset: "0", pageSize: "500" });
+    expect(results.response.json).toMatchObject({
+      data: [
+        [null, null],
+        [null, null],
+      ],
+    });
+  });
+});
+
+describe("TrafficReplayer", () => {
+  it("should replay a session without waiting", async () => {
+    const fixture = await record(new TrafficRecorder({ sql: "hashed" }));
+    const replayer = new TrafficReplayer(fixture);
+    const client = replayClient(replayer);
+
+    const startedAt = Date.now();
+    const queryJobId = await client.submitJob({
+      ...scope,
+      statements: [query],
+    });
+    const status = await client.waitForJob({ queryJobId });
+    const result = await client.getJobResults({
+      queryJobId,
+      statementId: status.statements[0].id,
+    });
+
+    expect(status.status).toBe("completed");
+    expect(result.data).toEqual([
+      [1, "alice@example.com"],
+      [2, "bob@example.com"],
+    ]);
+    expect(Date.now() - startedAt).toBeLessThan(100);
+    expect(replayer.unused()).toEqual([]);
+  });
+
+  it("should reject unmatched requests without retrying", async () => {
+    const replayer = new TrafficReplayer(await record(new TrafficRecorder()));
+    const client = replayClient(replayer);
+
+    const error = await client
+      .submitJob({ ...scope, statements: ["SELECT 1"] })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(UnmatchedRequestError);
+    expect((error as UnmatchedRequestError).message).toContain(
+      "No recorded exchange matches POST /api/v1/branches/branch-1/workspaces/ws-1/queries"
+    );
+    expect((error as UnmatchedRequestError).message).toContain(query);
+  });
+
+  it("should load a saved fixture", async () => {
+    const recorder = new TrafficRecorder();
+    await record(recorder);
+    const dir = await mkdtemp(join(tmpdir(), "query-service-"));
+    try {
+      await recorder.save(join(dir, "session.json"));
+      const replayer = await TrafficReplayer.load(join(dir, "session.json"));
+
+      expect(replayer.unused()).toEqual(recorder.toFixture().exchanges);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,221 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable, Writable } from "node:stream";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "../src/client";
+import { Repl, runRepl } from "../src/repl";
+import { FakeQueryService } from "../src/testing";
+
+const scope = { branchId: "branch-1", workspaceId: "ws-1" };
+
+const numbers = Array.from({ length: 5 }, (_, i) => [i + 1]);
+
+function createRepl(service: FakeQueryService) {
+  const client = new Client({
+    baseUrl: "https://query.keboola.com",
+    token: "test-token",
+    fetch: service.fetch,
+  });
+  const output = { text: "" };
+  const entries: string[] = [];
+  const repl = new Repl(client, scope, {
+    pageSize: 2,
+    write: (text) => {
+      output.text += text;
+    },
+    onEntry: (entry) => entries.push(entry),
+  });
+  return { client, repl, output, entries };
+}
+
+async function feed(repl: Repl, lines: string[]): Promise<void> {
+  for (const line of lines) {
+    await repl.handle(line);
+  }
+}
+
+describe("Repl", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "kbc-query-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should run multi-line statements and page through results", async () => {
+    const service = new FakeQueryService({
+      handler: (query) =>
+        query.startsWith("SELECT")
+          ? { columns: ["n"], rows: numbers }
+          : { rowsAffected: 3 },
+    });
+    const { repl, output, entries } = createRepl(service);
+
+    await repl.handle("SELECT n");
+    expect(repl.prompt).toBe("...> ");
+    await repl.handle("FROM numbers;");
+    expect(repl.prompt).toBe("ws-1> ");
+    expect(output.text).toBe("n\n-\n1\n2\n(rows 1-2 of 5, \\next for more)\n");
+
+    output.text = "";
+    await feed(repl, ["\\next", "\\next", "\\next"]);
+    expect(output.text).toBe(
+      "n\n-\n3\n4\n(rows 3-4 of 5, \\next for more)\n" +
+        "n\n-\n5\n(rows 5-5 of 5)\n" +
+        "No more rows\n"
+    );
+
+    output.text = "";
+    await repl.handle("DELETE FROM numbers;");
+    expect(output.text).toBe("OK, 3 rows affected\n");
+    expect(entries).toEqual([
+      "SELECT n FROM numbers",
+      "\\next",
+      "\\next",
+      "\\next",
+      "DELETE FROM numbers",
+    ]);
+    expect(service.getJob("job-1")?.statements[0].query).toBe(
+      "SELECT n\nFROM numbers"
+    );
+  });
+
+  it("should split input outside strings and comments", async () => {
+    const service = new FakeQueryService();
+    const { repl, output, entries } = createRepl(service);
+
+    await repl.handle("SELECT 1; -- note");
+    expect(repl.prompt).toBe("ws-1> ");
+    expect(output.text).toBe("OK, 0 rows affected\n");
+
+    await repl.handle("INSERT INTO t VALUES ('a;");
+    expect(repl.prompt).toBe("...> ");
+    await repl.handle("b');");
+    expect(repl.prompt).toBe("ws-1> ");
+
+    await repl.handle("SELECT 1; SELECT 2;");
+    expect(entries).toEqual([
+      "SELECT 1",
+      "INSERT INTO t VALUES ('a; b')",
+      "SELECT 1",
+      "SELECT 2",
+    ]);
+    const submitted = service.requests
+      .filter((request) => request.route === "submit")
+      .map((request) => (request.body as { statements: string[] }).statements);
+    expect(submitted).toEqual([
+      ["SELECT 1"],
+      ["INSERT INTO t VALUES ('a;\nb')"],
+      ["SELECT 1"],
+      ["SELECT 2"],
+    ]);
+  });
+
+  it("should show timing, history and errors", async () => {
+    const service = new FakeQueryService({
+      handler: (query) => {
+        if (query.includes("missing")) {
+          throw new Error("Table 'missing' does not exist");
+        }
+        return {};
+      },
+    });
+    const { repl, output } = createRepl(service);
+
+    await feed(repl, ["\\timing", "UPDATE a SET b = 1;"]);
+    expect(output.text).toMatch(
+      /^Timing is on\.\nOK, 0 rows affected\nTime: \d+ ms\n$/
+    );
+
+    output.text = "";
+    await feed(repl, ["\\timing", "SELECT * FROM missing;"]);
+    expect(output.text).toContain("Timing is off.\nERROR: ");
+    expect(output.text).toContain("Table 'missing' does not exist");
+
+    output.text = "";
+    await repl.handle("\\history 2");
+    const lines = output.text.split("\n");
+    expect(lines[0]).toMatch(/created +\| status +\| job +\| query/);
+    expect(lines[2]).toMatch(/\| failed +\| job-\d+ \| SELECT \* FROM missing/);
+    expect(lines[3]).toMatch(/\| completed \| job-\d+ \| UPDATE a SET b = 1/);
+    expect(lines[4]).toBe("(2 rows)");
+  });
+
+  it("should export the last result", async () => {
+    const service = new FakeQueryService({
+      handler: () => ({ columns: ["n"], rows: numbers }),
+    });
+    const { repl, output } = createRepl(service);
+    const file = join(dir, "numbers.csv");
+
+    await feed(repl, ["SELECT n FROM numbers;", `\\export csv ${file}`]);
+
+    expect(output.text).toContain(`Exported 5 rows to ${file}\n`);
+    expect(await readFile(file, "utf8")).toBe("n\r\n1\r\n2\r\n3\r\n4\r\n5\r\n");
+  });
+
+  it("should report an export to an unwritable path", async () => {
+    // The file fails to open while the result is still being fetched
+    const service = new FakeQueryService({
+      handler: () => ({ columns: ["n"], rows: numbers }),
+      latency: 20,
+    });
+    const { repl, output } = createRepl(service);
+    const file = join(dir, "missing", "numbers.csv");
+
+    await feed(repl, ["SELECT n FROM numbers;", `\\export csv ${file}`]);
+
+    expect(output.text).toContain("ERROR: ENOENT");
+    output.text = "";
+    await repl.handle("\\next");
+    expect(output.text).toContain("(rows 3-4 of 5, \\next for more)");
+  });
+
+  it("should cancel the running statement", async () => {
+    const service = new FakeQueryService({ statementDuration: 60000 });
+    const { repl, output } = createRepl(service);
+
+    const running = repl.handle("SELECT 1;");
+    setTimeout(() => repl.handle("\\cancel"), 50);
+    await running;
+
+    expect(output.text).toBe("Canceled\n");
+    expect(service.getJob("job-1")?.status).toBe("canceled");
+    expect(repl.busy).toBe(false);
+  });
+
+  it("should persist the command history", async () => {
+    const service = new FakeQueryService();
+    const { client } = createRepl(service);
+    const historyFile = join(dir, "history");
+    let text = "";
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        text += String(chunk);
+        callback();
+      },
+    });
+
+    await runRepl(client, scope, {
+      input: Readable.from([
+        "SELECT 1\n",
+        "  + 1;\n",
+        "\\quit\n",
+        "SELECT 2;\n",
+      ]),
+      output,
+      terminal: false,
+      historyFile,
+    });
+
+    expect(text).toBe("OK, 0 rows affected\n");
+    expect(
+      service.requests.filter((request) => request.route === "submit")
+    ).toHaveLength(1);
+    expect(await readFile(historyFile, "utf8")).toBe("SELECT 1 + 1\n\\quit\n");
+  });
+});
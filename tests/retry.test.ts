@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { RetryStrategy, parseRetryAfter } from "../src/retry";
+import { QueryServiceError } from "../src/errors";
+
+const get = { method: "GET", path: "/api/v1/queries/1", idempotent: false };
+const submit = {
+  method: "POST",
+  path: "/api/v1/branches/1/workspaces/2/queries",
+  idempotent: false,
+};
+
+function failure(status: number | undefined, attempt = 0, headers?: HeadersInit) {
+  return {
+    error: new QueryServiceError("failed", { statusCode: status }),
+    response:
+      status === undefined ? undefined : { status, headers: new Headers(headers) },
+    attempt,
+    elapsed: 0,
+  };
+}
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(
+      parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", Date.UTC(2024, 0, 1))
+    ).toBe(10000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe("RetryStrategy", () => {
+  const noJitter = { jitter: (delay: number) => delay };
+
+  it("should retry idempotent requests with exponential backoff", () => {
+    const strategy = new RetryStrategy(noJitter);
+    expect(strategy.nextDelay(get, failure(503, 0))).toBe(100);
+    expect(strategy.nextDelay(get, failure(undefined, 2))).toBe(400);
+    expect(strategy.nextDelay(get, failure(400))).toBeUndefined();
+    expect(strategy.nextDelay(get, failure(503, 3))).toBe("exhausted");
+  });
+
+  it("should only retry non-idempotent requests on 429", () => {
+    const strategy = new RetryStrategy(noJitter);
+    expect(strategy.nextDelay(submit, failure(503))).toBeUndefined();
+    expect(strategy.nextDelay(submit, failure(undefined))).toBeUndefined();
+    expect(strategy.nextDelay(submit, failure(429))).toBe(100);
+    expect(
+      strategy.nextDelay({ ...submit, idempotent: true }, failure(503))
+    ).toBe(100);
+  });
+
+  it("should honor Retry-After up to maxRetryAfter", () => {
+    const strategy = new RetryStrategy({ ...noJitter, maxRetryAfter: 5000 });
+    expect(strategy.nextDelay(get, failure(429, 0, { "Retry-After": "3" }))).toBe(
+      3000
+    );
+    expect(
+      strategy.nextDelay(get, failure(503, 0, { "Retry-After": "30" }))
+    ).toBe(5000);
+
+    const ignoring = new RetryStrategy({ ...noJitter, respectRetryAfter: false });
+    expect(ignoring.nextDelay(get, failure(429, 0, { "Retry-After": "3" }))).toBe(
+      100
+    );
+  });
+
+  it("should apply custom predicates, backoff and budget", () => {
+    const strategy = new RetryStrategy({
+      isRetryable: (request) => request.method === "POST",
+      shouldRetry: (error) => error.message === "failed",
+      backoff: (attempt) => (attempt + 1) * 1000,
+      jitter: (delay) => delay,
+      budget: 2500,
+    });
+
+    expect(strategy.nextDelay(submit, failure(400))).toBe(1000);
+    expect(strategy.nextDelay(get, failure(503))).toBeUndefined();
+    expect(
+      strategy.nextDelay(submit, { ...failure(500, 1), elapsed: 1000 })
+    ).toBe("exhausted");
+  });
+
+  it("should never retry errors marked as not retryable", () => {
+    const strategy = new RetryStrategy({ shouldRetry: () => true });
+    const error = new QueryServiceError("failed", { retryable: false });
+
+    expect(
+      strategy.nextDelay(get, { error, attempt: 0, elapsed: 0 })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { mapRows, rowToObject } from "../src/rows";
+import { RowValidationError } from "../src/errors";
+import type { QueryResult } from "../src/types";
+
+const result: QueryResult = {
+  status: "completed",
+  columns: [
+    { name: "id", type: "text", nullable: false },
+    { name: "age", type: "integer", nullable: true },
+  ],
+  data: [
+    ["a", 30],
+    ["b", "unknown"],
+  ],
+};
+
+describe("rowToObject", () => {
+  it("should key values by column name", () => {
+    expect(rowToObject(["a", 30], result.columns)).toEqual({ id: "a", age: 30 });
+  });
+});
+
+describe("mapRows", () => {
+  it("should map rows with a validator function", () => {
+    const mapped = mapRows(result, (row) => ({ id: String(row.id) }), "stmt-1");
+    expect(mapped.rows).toEqual([{ id: "a" }, { id: "b" }]);
+    expect(mapped.data).toBe(result.data);
+  });
+
+  it("should accept objects with a parse method", () => {
+    const schema = { parse: (row: unknown) => row as { id: string } };
+    const mapped = mapRows(result, schema, "stmt-1");
+    expect(mapped.rows[0].id).toBe("a");
+  });
+
+  it("should throw RowValidationError naming statement, row and column", () => {
+    // Shaped like a zod error
+    const schema = {
+      parse: (row: unknown) => {
+        const { age } = row as { age: unknown };
+        if (typeof age !== "number") {
+          throw Object.assign(new Error("Expected number"), {
+            issues: [{ path: ["age"], message: "Expected number" }],
+          });
+        }
+        return row;
+      },
+    };
+
+    let error: unknown;
+    try {
+      mapRows(result, schema, "stmt-1");
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(RowValidationError);
+    const validationError = error as RowValidationError;
+    expect(validationError.statementId).toBe("stmt-1");
+    expect(validationError.rowIndex).toBe(1);
+    expect(validationError.column).toBe("age");
+    expect(validationError.message).toBe(
+      'Row 1 of statement stmt-1 failed validation at column "age": Expected number'
+    );
+  });
+
+  it("should read valibot-style issue paths", () => {
+    const schema = () => {
+      throw Object.assign(new Error("Invalid"), {
+        issues: [{ path: [{ key: "id" }] }],
+      });
+    };
+    expect(() => mapRows(result, schema, "stmt-1")).toThrow(
+      expect.objectContaining({ column: "id", rowIndex: 0 })
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { ScriptSyntaxError } from "../src/errors";
+import { splitStatements } from "../src/script";
+
+describe("splitStatements", () => {
+  it("should split on semicolons with source lines", () => {
+    const script = [
+      "-- Orders",
+      "CREATE TABLE orders (id INT);",
+      "",
+      "INSERT INTO orders",
+      "VALUES (1), (2);",
+      "SELECT COUNT(*) FROM orders",
+    ].join("\n");
+
+    expect(splitStatements(script)).toEqual([
+      { sql: "CREATE TABLE orders (id INT)", startLine: 2, endLine: 2 },
+      {
+        sql: "INSERT INTO orders\nVALUES (1), (2)",
+        startLine: 4,
+        endLine: 5,
+      },
+      { sql: "SELECT COUNT(*) FROM orders", startLine: 6, endLine: 6 },
+    ]);
+  });
+
+  it("should ignore semicolons in literals, identifiers and comments", () => {
+    const script = [
+      "SELECT 'a;b', 'it''s;', 'c\\';' AS \"x;y\"; -- one;",
+      "/* two; */ SELECT 2;",
+      "// three;",
+      "CREATE PROCEDURE p() RETURNS INT LANGUAGE SQL AS $$",
+      "BEGIN RETURN 1; END;",
+      "$$;",
+      ";; -- only a comment",
+    ].join("\n");
+
+    expect(splitStatements(script).map((statement) => statement.sql)).toEqual([
+      "SELECT 'a;b', 'it''s;', 'c\\';' AS \"x;y\"",
+      "SELECT 2",
+      "CREATE PROCEDURE p() RETURNS INT LANGUAGE SQL AS $$\n" +
+        "BEGIN RETURN 1; END;\n$$",
+    ]);
+  });
+
+  it("should follow BigQuery quoting and comments", () => {
+    const script = [
+      "SELECT \"a;\\\"b\", `c;d`, '''e;'f''' # g;",
+      "FROM t; SELECT $$; SELECT 2",
+    ].join("\n");
+
+    expect(
+      splitStatements(script, { dialect: "bigquery" }).map(
+        (statement) => statement.sql
+      )
+    ).toEqual([
+      "SELECT \"a;\\\"b\", `c;d`, '''e;'f''' # g;\nFROM t",
+      "SELECT $$",
+      "SELECT 2",
+    ]);
+  });
+
+  it("should reject unterminated literals and comments", () => {
+    expect(() => splitStatements("SELECT 1;\nSELECT 'open;")).toThrow(
+      new ScriptSyntaxError("Unterminated string literal starting at line 2", 2)
+    );
+    const error = (() => {
+      try {
+        splitStatements("SELECT 1;\n\n/* open");
+      } catch (e) {
+        return e as ScriptSyntaxError;
+      }
+    })();
+    expect(error).toBeInstanceOf(ScriptSyntaxError);
+    expect(error?.line).toBe(3);
+  });
+});
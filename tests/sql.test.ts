@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { sql } from "../src/sql";
+
+describe("sql", () => {
+  it("should render values as escaped literals", () => {
+    const name = "O'Brien \\ co";
+    const statement = sql`SELECT * FROM t WHERE name = ${name} AND id = ${42}`;
+
+    expect(statement.toSQL()).toBe(
+      "SELECT * FROM t WHERE name = 'O''Brien \\\\ co' AND id = 42"
+    );
+    expect(statement.toSQL("bigquery")).toBe(
+      "SELECT * FROM t WHERE name = 'O\\'Brien \\\\ co' AND id = 42"
+    );
+  });
+
+  it("should render NULL, booleans, bigints and dates", () => {
+    const date = new Date("2024-01-01T00:00:00Z");
+    const statement = sql`VALUES (${null}, ${true}, ${10n}, ${date})`;
+
+    expect(statement.toSQL("snowflake")).toBe(
+      "VALUES (NULL, TRUE, 10, '2024-01-01T00:00:00.000Z'::TIMESTAMP_TZ)"
+    );
+    expect(statement.toSQL("bigquery")).toBe(
+      "VALUES (NULL, TRUE, 10, TIMESTAMP '2024-01-01T00:00:00.000Z')"
+    );
+  });
+
+  it("should wrap negative numbers in parentheses", () => {
+    const statement = sql`SELECT a-${-1}, b-${-2n}, ${-0.5 * 0} FROM t`;
+    expect(statement.toSQL()).toBe("SELECT a-(-1), b-(-2), 0 FROM t");
+  });
+
+  it("should quote identifiers per dialect", () => {
+    const table = sql.identifier("my schema", 'we"ird`');
+    expect(sql`SELECT * FROM ${table}`.toSQL("snowflake")).toBe(
+      'SELECT * FROM "my schema"."we""ird`"'
+    );
+    expect(sql`SELECT * FROM ${table}`.toSQL("bigquery")).toBe(
+      'SELECT * FROM `my schema`.`we"ird\\``'
+    );
+  });
+
+  it("should render IN lists", () => {
+    const statement = sql`SELECT 1 WHERE id IN ${sql.in([1, "a'b"])}`;
+    expect(statement.toSQL()).toBe("SELECT 1 WHERE id IN (1, 'a''b')");
+    expect(() => sql.in([])).toThrow(TypeError);
+  });
+
+  it("should insert raw fragments and nested statements verbatim", () => {
+    const where = sql`status = ${"open"}`;
+    const statement = sql`SELECT * FROM t WHERE ${where} ORDER BY ${sql.raw("id DESC")}`;
+    expect(statement.toSQL()).toBe(
+      "SELECT * FROM t WHERE status = 'open' ORDER BY id DESC"
+    );
+  });
+
+  it("should join fragments", () => {
+    const columns = sql.join([sql.identifier("a"), sql.identifier("b")]);
+    expect(sql`SELECT ${columns} FROM t`.toSQL()).toBe(
+      'SELECT "a", "b" FROM t'
+    );
+  });
+
+  it("should reject arrays used as plain values", () => {
+    expect(() => sql`SELECT ${[1, 2]}`.toSQL()).toThrow(TypeError);
+  });
+});
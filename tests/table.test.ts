@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { formatTable } from "../src/table";
+
+describe("formatTable", () => {
+  it("should align columns and right-align numbers", () => {
+    expect(
+      formatTable(
+        ["id", "name"],
+        [
+          [1, "Alice"],
+          [20, null],
+        ]
+      )
+    ).toBe(
+      [
+        "id | name",
+        "---+------",
+        " 1 | Alice",
+        "20 | NULL",
+        "(2 rows)",
+        "",
+      ].join("\n")
+    );
+  });
+});
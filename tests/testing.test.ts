@@ -0,0 +1,214 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Client } from "../src/client";
+import {
+  AuthenticationError,
+  JobError,
+  RetryExhaustedError,
+} from "../src/errors";
+import { FakeQueryService } from "../src/testing";
+
+function createClient(service: FakeQueryService, baseUrl?: string): Client {
+  return new Client({
+    baseUrl: baseUrl ?? "https://query.keboola.com",
+    token: "test-token",
+    fetch: baseUrl ? undefined : service.fetch,
+    retry: { backoff: () => 0, jitter: (delay) => delay },
+  });
+}
+
+const scope = { branchId: "branch-1", workspaceId: "ws-1" };
+
+describe("FakeQueryService", () => {
+  it("should execute queries with the SQL handler", async () => {
+    const service = new FakeQueryService({
+      handler: (query) =>
+        query.startsWith("SELECT")
+          ? {
+              columns: ["id", "name"],
+              rows: [
+                [1, "Alice"],
+                [2, "Bob"],
+                [3, "Carol"],
+              ],
+            }
+          : { rowsAffected: 7 },
+    });
+    const client = createClient(service);
+
+    const [update, select] = await client.executeQuery({
+      ...scope,
+      statements: ["UPDATE users SET active = true", "SELECT * FROM users"],
+    });
+
+    expect(update.rowsAffected).toBe(7);
+    expect(select.columns.map((column) => column.name)).toEqual(["id", "name"]);
+    expect(select.data).toHaveLength(3);
+  });
+
+  it("should paginate and stream results", async () => {
+    const rows = Array.from({ length: 5 }, (_, i) => [i]);
+    const service = new FakeQueryService({
+      handler: () => ({ columns: ["n"], rows }),
+    });
+    const client = createClient(service);
+    const queryJobId = await client.submitJob({
+      ...scope,
+      statements: ["SELECT n FROM numbers"],
+    });
+    const status = await client.waitForJob({ queryJobId });
+    const statementId = status.statements[0].id;
+
+    const paged = [];
+    for await (const row of client.iterateResults({
+      queryJobId,
+      statementId,
+      pageSize: 2,
+    })) {
+      paged.push(row);
+    }
+    const streamed = [];
+    for await (const row of client.streamResults(queryJobId, statementId)) {
+      streamed.push(row);
+    }
+
+    expect(paged).toEqual(rows);
+    expect(streamed).toEqual(rows.map(([n]) => ({ n })));
+  });
+
+  it("should fail the statement when the handler throws", async () => {
+    const service = new FakeQueryService({
+      handler: (query) => {
+        if (query.includes("missing")) {
+          throw new Error("Table 'missing' does not exist");
+        }
+        return {};
+      },
+    });
+    const client = createClient(service);
+
+    const error = await client
+      .executeQuery({
+        ...scope,
+        statements: ["SELECT 1", "SELECT * FROM missing", "SELECT 2"],
+      })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(JobError);
+    const job = service.getJob((error as JobError).jobId)!;
+    expect(job.status).toBe("failed");
+    expect(job.statements.map((statement) => statement.status)).toEqual([
+      "completed",
+      "failed",
+      "notExecuted",
+    ]);
+    expect(job.statements[1].error).toBe("Table 'missing' does not exist");
+  });
+
+  it("should run statements on the simulated timeline and cancel", async () => {
+    const service = new FakeQueryService({ statementDuration: 60000 });
+    const client = createClient(service);
+    const queryJobId = await client.submitJob({
+      ...scope,
+      statements: ["SELECT 1", "SELECT 2"],
+    });
+
+    const running = await client.getJobStatus(queryJobId);
+    expect(running.status).toBe("processing");
+    expect(running.statements.map((statement) => statement.status)).toEqual([
+      "processing",
+      "waiting",
+    ]);
+
+    await client.cancelJob(queryJobId, "Too slow");
+    const canceled = await client.getJobStatus(queryJobId);
+    expect(canceled.status).toBe("canceled");
+    expect(canceled.cancellationReason).toBe("Too slow");
+    expect(canceled.statements.map((statement) => statement.status)).toEqual([
+      "canceled",
+      "notExecuted",
+    ]);
+  });
+
+  it("should inject 429 and 5xx responses", async () => {
+    const service = new FakeQueryService();
+    const client = createClient(service);
+
+    service.injectFault({ route: "status", status: 429, retryAfter: 0 });
+    service.injectFault({ route: "status", status: 503, times: 1 });
+    const queryJobId = await client.submitJob({
+      ...scope,
+      statements: ["SELECT 1"],
+    });
+    const status = await client.getJobStatus(queryJobId);
+    expect(status.status).toBe("completed");
+    expect(
+      service.requests.filter((request) => request.route === "status")
+    ).toHaveLength(3);
+
+    service.injectFault({ status: 500, times: 10 });
+    await expect(client.getJobStatus(queryJobId)).rejects.toThrow(
+      RetryExhaustedError
+    );
+  });
+
+  it("should list the workspace history newest first", async () => {
+    const service = new FakeQueryService();
+    const client = createClient(service);
+    await client.executeQuery({ ...scope, statements: ["SELECT 1"] });
+    await client.executeQuery({
+      ...scope,
+      statements: ["SELECT 2", "SELECT 3"],
+    });
+    await client.executeQuery({
+      branchId: "branch-1",
+      workspaceId: "ws-2",
+      statements: ["SELECT 4"],
+    });
+
+    const first = await client.getQueryHistory({ ...scope, pageSize: 2 });
+    const second = await client.getQueryHistory({
+      ...scope,
+      afterId: first.statements[1].id,
+    });
+
+    expect(first.statements.map((statement) => statement.query)).toEqual([
+      "SELECT 3",
+      "SELECT 2",
+    ]);
+    expect(second.statements.map((statement) => statement.query)).toEqual([
+      "SELECT 1",
+    ]);
+  });
+
+  it("should reject requests with another token", async () => {
+    const service = new FakeQueryService({ token: "secret" });
+    const client = createClient(service);
+
+    await expect(
+      client.submitJob({ ...scope, statements: ["SELECT 1"] })
+    ).rejects.toThrow(AuthenticationError);
+  });
+
+  describe("HTTP server", () => {
+    const service = new FakeQueryService({
+      handler: () => ({ columns: ["answer"], rows: [[42]] }),
+    });
+
+    afterEach(() => service.close());
+
+    it("should serve the API over HTTP", async () => {
+      const baseUrl = await service.listen();
+      const client = createClient(service, baseUrl);
+
+      const [result] = await client.executeQuery({
+        ...scope,
+        statements: ["SELECT 42 AS answer"],
+      });
+
+      expect(result.data).toEqual([[42]]);
+      expect(service.requests[0].headers["x-storageapi-token"]).toBe(
+        "test-token"
+      );
+    });
+  });
+});
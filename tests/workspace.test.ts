@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "../src/client";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("WorkspaceClient", () => {
+  let client: Client;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = new Client({
+      baseUrl: "https://query.keboola.com",
+      token: "test-token",
+    });
+  });
+
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should submit jobs to its workspace with its defaults", async () => {
+    mockFetch.mockResolvedValue({
+      status: 200,
+      json: async () => ({ queryJobId: "job-1" }),
+    });
+    const workspace = client.workspace({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      transactional: false,
+      actorType: "system",
+    });
+
+    await workspace.submitJob({ statements: ["SELECT 1"] });
+    await workspace.submitJob({ statements: ["SELECT 2"], actorType: "user" });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(
+      "https://query.keboola.com/api/v1/branches/branch-1/workspaces/ws-1/queries"
+    );
+    expect(JSON.parse(init.body)).toEqual({
+      statements: ["SELECT 1"],
+      transactional: false,
+      actorType: "system",
+    });
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).actorType).toBe("user");
+  });
+
+  it("should get the history of its workspace", async () => {
+    mockFetch.mockResolvedValueOnce({
+      status: 200,
+      json: async () => ({ statements: [] }),
+    });
+    const workspace = client.workspace({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+    });
+
+    await workspace.getQueryHistory({ pageSize: 10 });
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "https://query.keboola.com/api/v1/branches/branch-1/workspaces/ws-1/queries?pageSize=10"
+    );
+  });
+
+  it("should list jobs submitted through the scope only", async () => {
+    let jobs = 0;
+    mockFetch.mockImplementation(
+      async (url: string, init: { method: string }) => {
+        if (init.method === "POST") {
+          return {
+            status: 200,
+            json: async () => ({ queryJobId: `job-${++jobs}` }),
+          };
+        }
+        if (url.endsWith("/results?offset=0&pageSize=500")) {
+          return {
+            status: 200,
+            json: async () => ({ status: "completed", columns: [], data: [] }),
+          };
+        }
+        return {
+          status: 200,
+          json: async () => ({
+            status: "completed",
+            statements: [
+              { id: "stmt-1", query: "SELECT 1", status: "completed" },
+            ],
+          }),
+        };
+      }
+    );
+    const workspace = client.workspace({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+    });
+    const other = client.workspace({
+      branchId: "branch-1",
+      workspaceId: "ws-2",
+    });
+
+    await workspace.submitJob({ statements: ["SELECT 1"] });
+    await other.submitJob({ statements: ["SELECT 1"] });
+    await client.submitJob({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      statements: ["SELECT 1"],
+    });
+    await workspace.executeQuery({ statements: ["SELECT 1"] });
+
+    expect(workspace.listJobs().map((job) => job.queryJobId)).toEqual([
+      "job-1",
+      "job-4",
+    ]);
+    expect(workspace.listJobs()[0]).toMatchObject({
+      recovered: false,
+      submittedAt: expect.any(Date),
+    });
+    expect(other.listJobs().map((job) => job.queryJobId)).toEqual(["job-2"]);
+  });
+
+  it("should keep only the most recent jobs", async () => {
+    let jobs = 0;
+    mockFetch.mockImplementation(async () => ({
+      status: 200,
+      json: async () => ({ queryJobId: `job-${++jobs}` }),
+    }));
+    const workspace = client.workspace({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      maxTrackedJobs: 2,
+    });
+    const untracked = client.workspace({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+      maxTrackedJobs: 0,
+    });
+    const onSubmitted = vi.fn();
+
+    for (let i = 0; i < 3; i++) {
+      await workspace.submitJob({ statements: ["SELECT 1"], onSubmitted });
+    }
+    await untracked.submitJob({ statements: ["SELECT 1"] });
+
+    expect(workspace.listJobs().map((job) => job.queryJobId)).toEqual([
+      "job-2",
+      "job-3",
+    ]);
+    expect(untracked.listJobs()).toEqual([]);
+    expect(onSubmitted).toHaveBeenCalledTimes(3);
+    expect(onSubmitted).toHaveBeenLastCalledWith(
+      expect.objectContaining({ queryJobId: "job-3", recovered: false })
+    );
+  });
+
+  it("should share the parent's hooks and middleware", async () => {
+    mockFetch.mockResolvedValue({
+      status: 200,
+      json: async () => ({ queryJobId: "job-1" }),
+    });
+    const onRequest = vi.fn();
+    const middleware = vi.fn((request, next) => next(request));
+    const workspace = client.workspace({
+      branchId: "branch-1",
+      workspaceId: "ws-1",
+    });
+    client.addHooks({ onRequest });
+    client.use(middleware);
+
+    await workspace.cancelJob("job-1");
+
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,10 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/testing.ts", "src/bin.ts"],
   format: ["cjs", "esm"],
   dts: true,
-  splitting: false,
+  // Entries share the error classes, so instanceof works across them
+  splitting: true,
   sourcemap: true,
   clean: true,
   minify: false,